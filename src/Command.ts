@@ -1,8 +1,23 @@
 import * as vscode from 'vscode'
-import { CheckConfig, SelectModel, SelectDatabase, TestService } from '@cmd/index'
-import { OllamaService } from '@services/index'
+import {
+  CheckConfig,
+  SelectModel,
+  SelectDatabase,
+  TestService,
+  ConfigureAuth,
+  ToggleCompletion,
+  SnoozeCompletion,
+  ShowMenu,
+  FixDiagnostic,
+  ShowStats,
+  AddAccount,
+  ListAccounts,
+  DisableAccount,
+  DeleteAccount
+} from '@cmd/index'
+import { ProviderService } from '@services/index'
 import { configSection, vscodeSettingsCommand, vscodeSettingsFilter } from '@constants/index'
-import { StatusBarItem } from '@integrator/index'
+import { StatusBarItem, StateManager, HistoryRecorder } from '@integrator/index'
 
 /**
  * Activates extension configuration and registers commands.
@@ -10,7 +25,7 @@ import { StatusBarItem } from '@integrator/index'
  * @param context - Extension context for managing subscriptions
  */
 export default function (context: vscode.ExtensionContext): void {
-  const ollamaService: OllamaService = new OllamaService()
+  const providerService: ProviderService = new ProviderService()
   /** Register open configuration command */
   const openConfigCommand: vscode.Disposable = vscode.commands.registerCommand(
     `${configSection}.OpenConfig`,
@@ -22,14 +37,14 @@ export default function (context: vscode.ExtensionContext): void {
   const checkConfigCommand: vscode.Disposable = vscode.commands.registerCommand(
     `${configSection}.CheckConfig`,
     async (): Promise<void> => {
-      await CheckConfig(ollamaService)
+      await CheckConfig(providerService)
     }
   )
   /** Register select model command */
   const selectModelCommand: vscode.Disposable = vscode.commands.registerCommand(
     `${configSection}.SelectModel`,
     async (): Promise<void> => {
-      await SelectModel(ollamaService)
+      await SelectModel(providerService)
     }
   )
   /** Register select database command */
@@ -43,16 +58,103 @@ export default function (context: vscode.ExtensionContext): void {
   const testServiceCommand: vscode.Disposable = vscode.commands.registerCommand(
     `${configSection}.TestService`,
     async (): Promise<void> => {
-      await TestService(ollamaService)
+      await TestService(providerService)
     }
   )
+  /** Register host authentication command */
+  const configureAuthCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.ConfigureAuth`,
+    async (): Promise<void> => {
+      await ConfigureAuth()
+    }
+  )
+  /** Register toggle completion command */
+  const toggleCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.Toggle`,
+    (): void => {
+      ToggleCompletion()
+    }
+  )
+  /** Register snooze completion command */
+  const snoozeCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.Snooze`,
+    async (): Promise<void> => {
+      await SnoozeCompletion()
+    }
+  )
+  /** Register quick menu command opened from the status bar */
+  const showMenuCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.ShowMenu`,
+    async (): Promise<void> => {
+      await ShowMenu()
+    }
+  )
+  /** Register diagnostic fix command used by the Quick Fix code action */
+  const fixDiagnosticCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.FixDiagnostic`,
+    async (documentUri: vscode.Uri, diagnostic: vscode.Diagnostic): Promise<void> => {
+      await FixDiagnostic(providerService, documentUri, diagnostic)
+    }
+  )
+  /** Register completion statistics command */
+  const showStatsCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.ShowStats`,
+    async (): Promise<void> => {
+      await ShowStats()
+    }
+  )
+  /** Register add account command */
+  const addAccountCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.AddAccount`,
+    async (): Promise<void> => {
+      await AddAccount(providerService)
+    }
+  )
+  /** Register list accounts command */
+  const listAccountsCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.ListAccounts`,
+    async (): Promise<void> => {
+      await ListAccounts()
+    }
+  )
+  /** Register disable account command */
+  const disableAccountCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.DisableAccount`,
+    async (): Promise<void> => {
+      await DisableAccount()
+    }
+  )
+  /** Register delete account command */
+  const deleteAccountCommand: vscode.Disposable = vscode.commands.registerCommand(
+    `${configSection}.DeleteAccount`,
+    async (): Promise<void> => {
+      await DeleteAccount()
+    }
+  )
+  /** Keep the status bar indicator in sync with the extension state */
+  const stateListener: vscode.Disposable = StateManager.getInstance().onDidChangeState(() => {
+    StatusBarItem.getInstance().showState()
+  })
   /** Register all commands with the extension context */
   context.subscriptions.push(
     openConfigCommand,
     checkConfigCommand,
     selectModelCommand,
     selectDatabaseCommand,
-    testServiceCommand
+    testServiceCommand,
+    configureAuthCommand,
+    toggleCommand,
+    snoozeCommand,
+    showMenuCommand,
+    fixDiagnosticCommand,
+    showStatsCommand,
+    addAccountCommand,
+    listAccountsCommand,
+    disableAccountCommand,
+    deleteAccountCommand,
+    stateListener,
+    StateManager.getInstance(),
+    HistoryRecorder.getInstance()
   )
-  StatusBarItem.getInstance().show(`$(lightbulb) ${configSection}: Ready!`)
+  StatusBarItem.getInstance().showState()
 }
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode'
 import activateEventCommand from '@eventCommand'
-import { updateConfigCache, ConfigManager } from '@config/index'
+import { updateConfigCache, ConfigManager, SecretManager } from '@config/index'
 import { CompletionEvent, StatusBarItem } from '@integrator/index'
 import { LogHandler } from '@utils/index'
 
@@ -16,6 +16,8 @@ export function activate(context: vscode.ExtensionContext): void {
     ConfigManager.onDidChangeConfiguration(() => {
       updateConfigCache()
     })
+    /** Initialize secret storage and move plain text API keys out of the database */
+    context.subscriptions.push(SecretManager.getInstance().initialize(context.secrets))
     /** Initialize inline completion */
     new CompletionEvent(context).initialize()
     /** Activate command */
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode'
+import { ModelService, NewAccountData } from '@interfaces/index'
+import { KnexManager, SecretManager } from '@config/index'
+import { AccountPicker, StatusBarItem } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection } from '@constants/index'
+
+/**
+ * Asks for an optional request limit.
+ * @param prompt - Prompt shown above the input box
+ * @returns Promise resolving to the limit, null for no limit, or undefined if cancelled
+ */
+async function getLimit(prompt: string): Promise<number | null | undefined> {
+  const input: string | undefined = await vscode.window.showInputBox({
+    prompt,
+    placeHolder: 'Leave empty for no limit',
+    validateInput: (value: string): string | null =>
+      value.trim() === '' || (Number.isInteger(Number(value)) && Number(value) > 0)
+        ? null
+        : 'Please enter a positive whole number'
+  })
+  if (input === undefined) {
+    return undefined
+  }
+  return input.trim() === '' ? null : Number(input)
+}
+
+/**
+ * Adds an account to the account database.
+ * @description Asks for the email, API key and optional limits, validates the key with a test call and
+ * creates the database schema if the database is new. The key is kept in secret storage.
+ * @param modelService - Service instance used to validate the API key
+ * @returns Promise that resolves when the account is stored or the input is cancelled
+ */
+export default async function (modelService: ModelService): Promise<void> {
+  const knexManager: KnexManager | null = AccountPicker.openDatabase()
+  if (!knexManager) {
+    return
+  }
+  const statusBarItem: StatusBarItem = StatusBarItem.getInstance()
+  try {
+    const email: string | undefined = await vscode.window.showInputBox({
+      prompt: 'Account email or name',
+      validateInput: (value: string): string | null =>
+        value.trim() === '' ? 'Please enter an email or name' : null
+    })
+    if (email === undefined) {
+      return
+    }
+    const apiKey: string | undefined = await vscode.window.showInputBox({
+      prompt: 'API key of the account',
+      password: true,
+      validateInput: (value: string): string | null =>
+        value.trim() === '' ? 'Please enter an API key' : null
+    })
+    if (apiKey === undefined) {
+      return
+    }
+    const limitHourly: number | null | undefined = await getLimit('Maximum requests per hour')
+    if (limitHourly === undefined) {
+      return
+    }
+    const limitDaily: number | null | undefined = await getLimit('Maximum requests per day')
+    if (limitDaily === undefined) {
+      return
+    }
+    statusBarItem.show('$(loading~spin) Validating API Key...')
+    const isValidKey: boolean = await modelService.validateApiKey(apiKey.trim())
+    statusBarItem.hide()
+    if (!isValidKey) {
+      LogHandler.showNotification(
+        `${configSection}: The API key was rejected by the service, the account was not added`,
+        'error'
+      )
+      return
+    }
+    const secretManager: SecretManager = SecretManager.getInstance()
+    const account: NewAccountData = {
+      email: email.trim(),
+      secret_id: await secretManager.storeSecrets(apiKey.trim()),
+      limit_hourly: limitHourly,
+      limit_daily: limitDaily
+    }
+    if (await knexManager.insertAccount(account)) {
+      LogHandler.showNotification(`${configSection}: Account ${account.email} added`, 'info')
+    } else {
+      await secretManager.deleteSecrets(account.secret_id)
+    }
+  } catch (error: unknown) {
+    statusBarItem.hide()
+    LogHandler.handle(error, 'add account', true, 'error')
+  } finally {
+    await knexManager.destroy()
+  }
+}
@@ -1,25 +1,30 @@
 import * as vscode from 'vscode'
-import { ConfigurationData } from '@interfaces/index'
-import { ConfigManager } from '@config/index'
-import { OllamaService } from '@services/index'
+import * as fs from 'fs'
+import { ConfigurationData, ModelService } from '@interfaces/index'
+import { ConfigManager, KnexManager } from '@config/index'
 import { LogHandler, Validator } from '@utils/index'
-import { vscodeSettingsCommand, vscodeSettingsFilter } from '@constants/index'
+import { configSection, vscodeSettingsCommand, vscodeSettingsFilter } from '@constants/index'
 
 /**
  * Validates configuration settings and checks service availability.
- * @description Displays configuration status and available models to the user
- * @param ollamaService - Service instance for model validation
+ * @description Displays configuration status and available models to the user, reports why the database path
+ * cannot be used and offers to create a missing database file
+ * @param modelService - Service instance for model validation
  * @returns Promise that resolves when validation is complete
  */
-export default async function (ollamaService: OllamaService): Promise<void> {
+export default async function (modelService: ModelService): Promise<void> {
   try {
     const config: ConfigurationData = ConfigManager.getConfig()
-    if (Validator.isOllamaUrl(config.urlHost) && !Validator.isValidPath(config.databasePath)) {
-      LogHandler.showNotification(`Invalid database path: ${config.databasePath}.`, 'warning', true)
-      return
+    if (Validator.isOllamaUrl(config.urlHost)) {
+      const pathIssue: string | null = Validator.getPathIssue(config.databasePath)
+      if (pathIssue !== null) {
+        LogHandler.showNotification(`Invalid database path: ${pathIssue}.`, 'warning', true)
+        return
+      }
+      await offerDatabaseCreation(config.databasePath)
     }
-    const ollamaAvailable: string[] = await ollamaService.getModels()
-    if (ollamaAvailable.length === 0) {
+    const modelsAvailable: string[] = await modelService.getModels()
+    if (modelsAvailable.length === 0) {
       await openSettings()
       return
     }
@@ -30,6 +35,35 @@ export default async function (ollamaService: OllamaService): Promise<void> {
   }
 }
 
+/**
+ * Offers to create the database file when it does not exist yet.
+ * @description Creates the file with the accounts and history tables so accounts can be added right away
+ * @param databasePath - Resolved and validated database path
+ * @returns Promise that resolves when the file exists or the user declined
+ */
+async function offerDatabaseCreation(databasePath: string): Promise<void> {
+  if (fs.existsSync(databasePath)) {
+    return
+  }
+  const createAction: string = 'Create Database'
+  const selection: string | undefined = await vscode.window.showWarningMessage(
+    `${configSection}: Database file ${databasePath} does not exist`,
+    createAction
+  )
+  if (selection !== createAction) {
+    return
+  }
+  const knexManager: KnexManager = KnexManager.getInstance(databasePath)
+  try {
+    await knexManager.migrate()
+    LogHandler.showNotification(`Database created at: ${databasePath}`, 'info')
+  } catch (error: unknown) {
+    LogHandler.handleDatabaseError(error, 'createDatabase')
+  } finally {
+    await knexManager.destroy()
+  }
+}
+
 /**
  * Opens editor settings with the extension filter applied.
  * @description Navigates user to extension configuration page
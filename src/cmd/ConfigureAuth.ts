@@ -0,0 +1,148 @@
+import * as vscode from 'vscode'
+import { HostAuthData, HostAuthType } from '@interfaces/index'
+import { ConfigManager, SecretManager } from '@config/index'
+import { LogHandler } from '@utils/index'
+import { configSection } from '@constants/index'
+
+/**
+ * Authentication scheme item of the quick pick.
+ * @description Null removes the authentication of the host
+ */
+type AuthTypeItem = vscode.QuickPickItem & { authType: HostAuthType | null }
+
+/**
+ * Authentication schemes offered for a host.
+ * @description Ordered by how common they are for reverse proxies
+ */
+const authTypeItems: AuthTypeItem[] = [
+  {
+    label: '$(key) Bearer Token',
+    description: 'Authorization: Bearer <token>',
+    authType: 'bearer'
+  },
+  { label: '$(account) Basic Auth', description: 'User name and password', authType: 'basic' },
+  { label: '$(list-flat) Custom Headers', description: 'Header: value pairs', authType: 'headers' },
+  { label: '$(trash) Remove Authentication', authType: null }
+]
+
+/**
+ * Checks whether a value is an absolute URL.
+ * @param value - The entered host
+ * @returns True if the value can be parsed as URL
+ */
+function isUrl(value: string): boolean {
+  try {
+    return new URL(value).origin !== 'null'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Asks for a required secret value.
+ * @param prompt - Prompt shown above the input box
+ * @param password - Whether the input is hidden
+ * @returns Promise resolving to the value or undefined if cancelled
+ */
+async function getValue(prompt: string, password: boolean): Promise<string | undefined> {
+  return vscode.window.showInputBox({
+    prompt,
+    password,
+    ignoreFocusOut: true,
+    validateInput: (value: string): string | null =>
+      value.trim() === '' ? 'Please enter a value' : null
+  })
+}
+
+/**
+ * Asks for custom request headers one at a time.
+ * @returns Promise resolving to the headers keyed by name or undefined if cancelled
+ */
+async function getHeaders(): Promise<Record<string, string> | undefined> {
+  const headers: Record<string, string> = {}
+  for (;;) {
+    const header: string | undefined = await vscode.window.showInputBox({
+      prompt: 'Request header as Name: value, leave empty to finish',
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: (value: string): string | null =>
+        value.trim() === '' || /^[\w-]+\s*:\s*\S/.test(value)
+          ? null
+          : 'Please enter a header as Name: value'
+    })
+    if (header === undefined) {
+      return undefined
+    }
+    if (header.trim() === '') {
+      return Object.keys(headers).length > 0 ? headers : undefined
+    }
+    const separator: number = header.indexOf(':')
+    headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim()
+  }
+}
+
+/**
+ * Asks for the credentials of an authentication scheme.
+ * @param authType - The authentication scheme
+ * @returns Promise resolving to the authentication or undefined if cancelled
+ */
+async function getHostAuth(authType: HostAuthType): Promise<HostAuthData | undefined> {
+  if (authType === 'bearer') {
+    const token: string | undefined = await getValue('Bearer token', true)
+    return token === undefined ? undefined : { type: authType, token: token.trim() }
+  }
+  if (authType === 'basic') {
+    const username: string | undefined = await getValue('User name', false)
+    if (username === undefined) {
+      return undefined
+    }
+    const password: string | undefined = await getValue('Password', true)
+    return password === undefined ? undefined : { type: authType, username, password }
+  }
+  const headers: Record<string, string> | undefined = await getHeaders()
+  return headers === undefined ? undefined : { type: authType, headers }
+}
+
+/**
+ * Configures the authentication of a service host.
+ * @description Asks for the host, defaulting to the configured host, and a bearer token, basic auth or custom
+ * headers. The authentication is kept in secret storage and sent with every request to the host.
+ * @returns Promise that resolves when the authentication is stored or the input is cancelled
+ */
+export default async function (): Promise<void> {
+  try {
+    const urlHost: string | undefined = await vscode.window.showInputBox({
+      prompt: 'Host the authentication is sent to',
+      value: ConfigManager.getUrlHost(),
+      ignoreFocusOut: true,
+      validateInput: (value: string): string | null =>
+        isUrl(value) ? null : 'Please enter a URL like https://llm.example.com'
+    })
+    if (urlHost === undefined) {
+      return
+    }
+    const selectedItem: AuthTypeItem | undefined = await vscode.window.showQuickPick(
+      authTypeItems,
+      { placeHolder: `Authentication of ${new URL(urlHost).origin}` }
+    )
+    if (!selectedItem) {
+      return
+    }
+    if (selectedItem.authType === null) {
+      await SecretManager.getInstance().setHostAuth(urlHost, null)
+      LogHandler.showNotification(`${configSection}: Removed authentication of ${urlHost}`, 'info')
+      return
+    }
+    const hostAuth: HostAuthData | undefined = await getHostAuth(selectedItem.authType)
+    if (!hostAuth) {
+      return
+    }
+    await SecretManager.getInstance().setHostAuth(urlHost, hostAuth)
+    LogHandler.showNotification(
+      `${configSection}: Saved ${hostAuth.type} authentication of ${urlHost}, run Test Service to confirm it`,
+      'info'
+    )
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'configure authentication', true, 'error')
+  }
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode'
+import { AccountData } from '@interfaces/index'
+import { KnexManager, SecretManager } from '@config/index'
+import { AccountPicker } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection } from '@constants/index'
+
+/** Confirmation button of the delete dialog */
+const deleteButton: string = 'Delete'
+
+/**
+ * Deletes an account from the account database.
+ * @description Asks for confirmation before the account and its secrets are removed
+ * @returns Promise that resolves when the account is deleted or the deletion is cancelled
+ */
+export default async function (): Promise<void> {
+  const knexManager: KnexManager | null = AccountPicker.openDatabase()
+  if (!knexManager) {
+    return
+  }
+  try {
+    const account: AccountData | undefined = await AccountPicker.pick(
+      knexManager,
+      'Select an account to delete'
+    )
+    if (!account) {
+      return
+    }
+    const confirmation: string | undefined = await vscode.window.showWarningMessage(
+      `Delete account ${account.email} and its API key?`,
+      { modal: true },
+      deleteButton
+    )
+    if (confirmation !== deleteButton) {
+      return
+    }
+    if (await knexManager.deleteAccount(account.id)) {
+      await SecretManager.getInstance().deleteSecrets(account.secret_id)
+      LogHandler.showNotification(`${configSection}: Account ${account.email} deleted`, 'info')
+    }
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'delete account', true, 'error')
+  } finally {
+    await knexManager.destroy()
+  }
+}
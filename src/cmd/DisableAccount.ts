@@ -0,0 +1,37 @@
+import { AccountData } from '@interfaces/index'
+import { KnexManager } from '@config/index'
+import { AccountPicker } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection } from '@constants/index'
+
+/**
+ * Disables or enables an account of the account database.
+ * @description Picking an active account disables it, picking a disabled account enables it again
+ * @returns Promise that resolves when the account is updated or the pick is cancelled
+ */
+export default async function (): Promise<void> {
+  const knexManager: KnexManager | null = AccountPicker.openDatabase()
+  if (!knexManager) {
+    return
+  }
+  try {
+    const account: AccountData | undefined = await AccountPicker.pick(
+      knexManager,
+      'Select an account to disable or enable'
+    )
+    if (!account) {
+      return
+    }
+    const disabled: boolean = !account.disabled
+    if (await knexManager.setDisabled(account.id, disabled)) {
+      LogHandler.showNotification(
+        `${configSection}: Account ${account.email} ${disabled ? 'disabled' : 'enabled'}`,
+        'info'
+      )
+    }
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'disable account', true, 'error')
+  } finally {
+    await knexManager.destroy()
+  }
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode'
+import { GenerationResult, ModelService } from '@interfaces/index'
+import {
+  requestLintFix,
+  CompletionDiff,
+  CompletionSelector,
+  FileTracker,
+  StateManager,
+  StatusBarItem
+} from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection } from '@constants/index'
+
+/**
+ * Describes a diagnostic as lint issue for the prompt.
+ * @param diagnostic - The diagnostic to describe
+ * @returns Lint issue with source, code, message and range
+ */
+function getLintIssue(diagnostic: vscode.Diagnostic): string {
+  const { start, end }: vscode.Range = diagnostic.range
+  const code: string | number | undefined =
+    typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code
+  const source: string = [diagnostic.source, code]
+    .filter((part: unknown) => part !== undefined)
+    .join(' ')
+  const location: string = `[Ln:${start.line + 1}:${start.character + 1}-Ln:${end.line + 1}:${end.character + 1}]`
+  const issue: string = `${diagnostic.message} ${location}`
+  return source !== '' ? `(${source}) ${issue}` : issue
+}
+
+/**
+ * Generates a fix for a diagnostic and shows it for review.
+ * @description Sends the diagnostic as lint issue to the model, edit and delete fixes are previewed
+ * with the CodeLens accept/reject actions, add fixes are shown as inline suggestion. Nothing is requested while
+ * completions are disabled, snoozed or excluded for the document because the inline suggestion would never show
+ * @param modelService - Service instance for text generation communication
+ * @param documentUri - URI of the document containing the diagnostic
+ * @param diagnostic - The diagnostic to fix
+ * @returns Promise that resolves when the fix is shown
+ */
+export default async function (
+  modelService: ModelService,
+  documentUri: vscode.Uri,
+  diagnostic: vscode.Diagnostic
+): Promise<void> {
+  const statusBarItem: StatusBarItem = StatusBarItem.getInstance()
+  try {
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument(documentUri)
+    if (!StateManager.getInstance().isEnabled() || !CompletionSelector.isEnabled(document)) {
+      statusBarItem.show(`$(info) ${configSection}: Completions are off for this file`)
+      return
+    }
+    const editor: vscode.TextEditor = await vscode.window.showTextDocument(document)
+    statusBarItem.show('$(loading~spin) Generating Lint Fix...')
+    const lintResult: GenerationResult | null = await requestLintFix(
+      document,
+      diagnostic.range.start,
+      modelService,
+      getLintIssue(diagnostic)
+    )
+    if (!lintResult) {
+      statusBarItem.show(`$(close) ${configSection}: Invalid response format`)
+      return
+    }
+    statusBarItem.show(`$(lightbulb) ${configSection}: ${lintResult.title}`)
+    if (lintResult.type === 'none') {
+      return
+    }
+    CompletionDiff.getInstance().process(document, lintResult, diagnostic.range.start)
+    if (FileTracker.isInline(FileTracker.getInstance().get(document.uri.toString()))) {
+      const lineEnd: vscode.Position = document.lineAt(diagnostic.range.end.line).range.end
+      editor.selection = new vscode.Selection(lineEnd, lineEnd)
+      await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger')
+      return
+    }
+    await vscode.commands.executeCommand('vscode.executeCodeLensProvider', document.uri)
+  } catch (error: unknown) {
+    statusBarItem.show(`$(error) ${configSection}: Lint fix failed`)
+    LogHandler.handle(error, 'diagnostic fix', true, 'error')
+  }
+}
@@ -0,0 +1,22 @@
+import { KnexManager } from '@config/index'
+import { AccountPicker } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+
+/**
+ * Lists the accounts of the account database.
+ * @description Shows the email, masked API key, state and usage of every account
+ * @returns Promise that resolves when the list is closed
+ */
+export default async function (): Promise<void> {
+  const knexManager: KnexManager | null = AccountPicker.openDatabase()
+  if (!knexManager) {
+    return
+  }
+  try {
+    await AccountPicker.pick(knexManager, 'Accounts with masked API keys')
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'list accounts', true, 'error')
+  } finally {
+    await knexManager.destroy()
+  }
+}
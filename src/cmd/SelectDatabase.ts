@@ -1,6 +1,6 @@
 import * as vscode from 'vscode'
 import { ConfigManager } from '@config/index'
-import { LogHandler } from '@utils/index'
+import { LogHandler, Validator } from '@utils/index'
 
 /**
  * Opens a file picker dialog to allow the user to select a database file.
@@ -21,6 +21,11 @@ export default async function (): Promise<void> {
     })
     if (fileUri?.[0]) {
       const selectedPath: string = fileUri[0].fsPath
+      const pathIssue: string | null = Validator.getPathIssue(selectedPath)
+      if (pathIssue !== null) {
+        LogHandler.showNotification(`Invalid database path: ${pathIssue}.`, 'warning')
+        return
+      }
       await ConfigManager.setDatabasePath(selectedPath)
       LogHandler.showNotification(`Database path set to: ${selectedPath}`, 'info')
     }
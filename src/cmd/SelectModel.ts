@@ -1,7 +1,7 @@
 import * as vscode from 'vscode'
+import { CompletionProfiles, CompletionType, ModelService } from '@interfaces/index'
 import { ConfigManager, isConfigChanged } from '@config/index'
 import { CacheManager } from '@integrator/index'
-import { OllamaService } from '@services/index'
 import { LogHandler } from '@utils/index'
 import { configSection } from '@constants/index'
 
@@ -10,16 +10,101 @@ let selectedModel: string = ''
 /** List of available models */
 let listModels: string[] = []
 
+/**
+ * Role item of the quick pick.
+ * @description Null assigns the selected model used by roles without their own model
+ */
+type RoleItem = vscode.QuickPickItem & { type: CompletionType | null }
+
+/**
+ * Model item of the quick pick.
+ * @description An empty model makes the role use the selected model again
+ */
+type ModelItem = vscode.QuickPickItem & { model: string }
+
+/**
+ * Roles a model can be assigned to.
+ * @description Labels of the completion types in the order they are offered
+ */
+const roleLabels: Array<[CompletionType, string]> = [
+  ['completion', 'Inline Completions'],
+  ['action', 'Code Actions and Refactors'],
+  ['lint', 'Lint Fixes']
+]
+
+/**
+ * Asks which role the model is assigned to.
+ * @returns Promise resolving to the picked role or undefined if cancelled
+ */
+async function pickRole(): Promise<RoleItem | undefined> {
+  const profiles: CompletionProfiles = ConfigManager.getCompletionProfiles()
+  const roleItems: RoleItem[] = roleLabels.map(([type, label]: [CompletionType, string]) => {
+    const { model }: { model: string } = profiles[type]
+    return {
+      label,
+      description: model !== '' ? model : `${selectedModel} (default)`,
+      type
+    }
+  })
+  return vscode.window.showQuickPick(
+    [
+      {
+        label: 'Default Model',
+        description: selectedModel,
+        detail: 'Used by every role without its own model',
+        type: null
+      },
+      ...roleItems
+    ],
+    { placeHolder: 'Select the role to assign a model to', canPickMany: false }
+  )
+}
+
+/**
+ * Creates the model items of a role.
+ * @param type - The completion type or null for the default model
+ * @param currentModel - Model currently assigned to the role, empty if the role uses the default model
+ * @returns Available models with the current model marked, roles of a completion type offer the default model first
+ */
+function getModelItems(type: CompletionType | null, currentModel: string): ModelItem[] {
+  const modelItems: ModelItem[] = listModels.map((model: string) => {
+    if (model === currentModel) {
+      return {
+        label: model,
+        description: '(Currently selected)',
+        picked: true,
+        model
+      }
+    }
+    return {
+      label: model,
+      picked: false,
+      model
+    }
+  })
+  if (type !== null) {
+    modelItems.unshift({
+      label: '$(discard) Default Model',
+      description: currentModel === '' ? `${selectedModel} (Currently selected)` : selectedModel,
+      picked: currentModel === '',
+      model: ''
+    })
+  }
+  return modelItems
+}
+
 /**
  * Displays model selection interface to users.
- * @description Shows available models and allows selection through quick pick interface, automatically selects first model if none is currently selected
- * @param ollamaService - Service instance for retrieving available models
+ * @description Asks for the role, the default model or the model of inline completions, code actions or lint fixes,
+ * then shows available models through quick pick interface. Automatically selects first model as default model if
+ * none is currently selected.
+ * @param modelService - Service instance for retrieving available models
  * @returns Promise that resolves when model selection is complete
  */
-export default async function (ollamaService: OllamaService): Promise<void> {
+export default async function (modelService: ModelService): Promise<void> {
   try {
     if (isConfigChanged()) {
-      listModels = await ollamaService.getModels()
+      listModels = await modelService.getModels()
       CacheManager.set(`${configSection}.OllamaModel`, listModels)
     } else {
       const cachedModels: string[] | undefined = CacheManager.get(
@@ -28,7 +113,7 @@ export default async function (ollamaService: OllamaService): Promise<void> {
       if (cachedModels && cachedModels.length > 0) {
         listModels = cachedModels
       } else {
-        listModels = await ollamaService.getModels()
+        listModels = await modelService.getModels()
         CacheManager.set(`${configSection}.OllamaModel`, listModels)
       }
     }
@@ -44,28 +129,25 @@ export default async function (ollamaService: OllamaService): Promise<void> {
       selectedModel = ConfigManager.getSelectedModel()
       CacheManager.set(`${configSection}.OllamaModel`, listModels)
     }
-    const quickPick: vscode.QuickPickItem[] = listModels.map((model: string) => {
-      if (model === selectedModel) {
-        return {
-          label: model,
-          description: '(Currently selected)',
-          picked: true
-        }
-      }
-      return {
-        label: model,
-        picked: false
-      }
+    const roleItem: RoleItem | undefined = await pickRole()
+    if (!roleItem) {
+      return
+    }
+    const { type }: RoleItem = roleItem
+    const currentModel: string =
+      type === null ? selectedModel : ConfigManager.getCompletionProfiles()[type].model
+    const modelItems: ModelItem[] = getModelItems(type, currentModel)
+    const selectedItem: ModelItem | undefined = await vscode.window.showQuickPick(modelItems, {
+      placeHolder: `Select a model for ${roleItem.label.toLowerCase()}`,
+      canPickMany: false
     })
-    const selectedItem: vscode.QuickPickItem | undefined = await vscode.window.showQuickPick(
-      quickPick,
-      {
-        placeHolder: 'Select a model for code completion',
-        canPickMany: false
-      }
-    )
-    if (selectedItem) {
-      await ConfigManager.setSelectedModel(selectedItem.label)
+    if (!selectedItem) {
+      return
+    }
+    if (type === null) {
+      await ConfigManager.setSelectedModel(selectedItem.model)
+    } else {
+      await ConfigManager.setCompletionModel(type, selectedItem.model)
     }
   } catch (error: unknown) {
     LogHandler.handle(error, 'model selection', true, 'error')
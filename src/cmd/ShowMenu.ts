@@ -0,0 +1,55 @@
+import * as vscode from 'vscode'
+import { StateManager } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection, historyViewId } from '@constants/index'
+
+/**
+ * Quick menu entry bound to an extension command.
+ * @description Extends the quick pick item with the command executed on selection
+ */
+type MenuItem = vscode.QuickPickItem & {
+  /** Command identifier executed when the item is selected */
+  command: string
+}
+
+/**
+ * Shows the quick menu with all extension commands.
+ * @description Opened from the status bar item, lists toggle and snooze actions followed by the configuration commands
+ * @returns Promise that resolves when the selected command has been executed
+ */
+export default async function (): Promise<void> {
+  try {
+    const isEnabled: boolean = StateManager.getInstance().isEnabled()
+    const menuItems: MenuItem[] = [
+      {
+        label: isEnabled ? '$(circle-slash) Disable Completions' : '$(check) Enable Completions',
+        command: `${configSection}.Toggle`
+      },
+      { label: '$(clock) Snooze Completions', command: `${configSection}.Snooze` },
+      { label: '$(gear) Open Configuration', command: `${configSection}.OpenConfig` },
+      { label: '$(checklist) Check Configuration', command: `${configSection}.CheckConfig` },
+      { label: '$(hubot) Select Available Model', command: `${configSection}.SelectModel` },
+      { label: '$(database) Select Database Path', command: `${configSection}.SelectDatabase` },
+      { label: '$(pulse) Test Service Availability', command: `${configSection}.TestService` },
+      { label: '$(lock) Configure Host Authentication', command: `${configSection}.ConfigureAuth` },
+      { label: '$(person-add) Add Account', command: `${configSection}.AddAccount` },
+      { label: '$(account) List Accounts', command: `${configSection}.ListAccounts` },
+      {
+        label: '$(circle-slash) Disable or Enable Account',
+        command: `${configSection}.DisableAccount`
+      },
+      { label: '$(trash) Delete Account', command: `${configSection}.DeleteAccount` },
+      { label: '$(graph) Show Completion Stats', command: `${configSection}.ShowStats` },
+      { label: '$(history) Show Completion History', command: `${historyViewId}.focus` }
+    ]
+    const selectedItem: MenuItem | undefined = await vscode.window.showQuickPick(menuItems, {
+      placeHolder: `${configSection}: Completions ${StateManager.getInstance().getState()}`,
+      canPickMany: false
+    })
+    if (selectedItem) {
+      await vscode.commands.executeCommand(selectedItem.command)
+    }
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'quick menu', true, 'error')
+  }
+}
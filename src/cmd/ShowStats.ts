@@ -0,0 +1,45 @@
+import * as vscode from 'vscode'
+import { HistoryStatsData } from '@interfaces/index'
+import { HistoryRecorder } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection } from '@constants/index'
+
+/**
+ * Shows the acceptance rates of suggestions per model and language.
+ * @description Reads the completion history from the local database and lists one entry per model and language
+ * @returns Promise that resolves when the statistics are shown
+ */
+export default async function (): Promise<void> {
+  try {
+    const stats: HistoryStatsData[] | null = await HistoryRecorder.getInstance().getStats()
+    if (stats === null) {
+      LogHandler.showNotification(
+        `${configSection}: Create the database with Check Configuration or select an existing database to record completion history`,
+        'warning'
+      )
+      return
+    }
+    if (stats.length === 0) {
+      LogHandler.showNotification(`${configSection}: No completion history recorded yet`, 'info')
+      return
+    }
+    const quickPick: vscode.QuickPickItem[] = stats.map(
+      (stat: HistoryStatsData): vscode.QuickPickItem => {
+        const acceptanceRate: number =
+          stat.suggested > 0 ? Math.round((stat.accepted / stat.suggested) * 100) : 0
+        return {
+          label: `${stat.model || 'Unknown model'} · ${stat.language}`,
+          description: `${acceptanceRate}% accepted`,
+          detail: `${stat.suggested} suggested, ${stat.accepted} accepted, ${stat.dismissed} dismissed, ${Math.round(stat.average_latency)} ms average latency`
+        }
+      }
+    )
+    await vscode.window.showQuickPick(quickPick, {
+      placeHolder: `${configSection}: Acceptance rate per model and language`,
+      canPickMany: false,
+      matchOnDescription: true
+    })
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'completion stats', true, 'error')
+  }
+}
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode'
+import { RequestScheduler, StateManager } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection, maxSnoozeMinutes, snoozeDurations } from '@constants/index'
+
+/** Quick pick label for entering a custom duration */
+const customDurationLabel: string = 'Custom...'
+
+/**
+ * Checks whether a value is a valid snooze duration.
+ * @param minutes - The duration in minutes
+ * @returns True if the duration is a whole number between one minute and the maximum snooze duration
+ */
+function isValidDuration(minutes: number): boolean {
+  return Number.isInteger(minutes) && minutes > 0 && minutes <= maxSnoozeMinutes
+}
+
+/**
+ * Pauses inline completions for a number of minutes.
+ * @description Shows predefined snooze durations with an option to enter a custom duration
+ * @returns Promise that resolves when the snooze is applied or cancelled
+ */
+export default async function (): Promise<void> {
+  try {
+    const quickPick: vscode.QuickPickItem[] = [
+      ...snoozeDurations.map((minutes: number): vscode.QuickPickItem => ({
+        label: `${minutes} minutes`
+      })),
+      { label: customDurationLabel }
+    ]
+    const selectedItem: vscode.QuickPickItem | undefined = await vscode.window.showQuickPick(
+      quickPick,
+      { placeHolder: 'Snooze completions for...', canPickMany: false }
+    )
+    if (!selectedItem) {
+      return
+    }
+    const input: string | undefined =
+      selectedItem.label === customDurationLabel
+        ? await vscode.window.showInputBox({
+            prompt: `Snooze duration in minutes (1 to ${maxSnoozeMinutes})`,
+            validateInput: (value: string): string | null =>
+              isValidDuration(Number(value))
+                ? null
+                : `Please enter a whole number of minutes between 1 and ${maxSnoozeMinutes}`
+          })
+        : selectedItem.label.split(' ')[0]
+    const minutes: number = Number(input)
+    if (!isValidDuration(minutes)) {
+      return
+    }
+    StateManager.getInstance().snooze(minutes)
+    RequestScheduler.getInstance().cancel()
+    LogHandler.showNotification(
+      `${configSection}: Completions snoozed for ${minutes} minutes`,
+      'info'
+    )
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'completion snooze', true, 'error')
+  }
+}
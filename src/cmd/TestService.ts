@@ -1,20 +1,37 @@
-import { ChatResponse } from 'ollama'
-import { CompletionResult } from '@interfaces/index'
-import { OllamaService } from '@services/index'
+import { CompletionResult, HostAuthData, ModelService } from '@interfaces/index'
+import { ConfigManager, SecretManager } from '@config/index'
 import { StatusBarItem } from '@integrator/index'
 import { LogHandler } from '@utils/index'
 import { configSection } from '@constants/index'
 
 /**
  * Tests the availability of the model service.
- * @description Sends a test prompt to the service and displays the response in a notification
- * @param ollamaService - Service instance for testing
+ * @description Confirms the authentication configured for the host first, then sends a test prompt to the service
+ * and displays the response in a notification
+ * @param modelService - Service instance for testing
  * @returns Promise that resolves when the test is complete
  */
-export default async function (ollamaService: OllamaService): Promise<void> {
+export default async function (modelService: ModelService): Promise<void> {
   const statusBarItem: StatusBarItem = StatusBarItem.getInstance()
   statusBarItem?.show('$(loading~spin) Testing Endpoint...')
-  const resCompletion: ChatResponse | CompletionResult = await ollamaService.generateCompletion(
+  const urlHost: string = ConfigManager.getUrlHost()
+  const hostAuth: HostAuthData | null = await SecretManager.getInstance().getHostAuth(urlHost)
+  if (hostAuth) {
+    const isAuthenticated: boolean = await modelService.checkAuthentication()
+    if (!isAuthenticated) {
+      LogHandler.showNotification(
+        `${configSection}: ${hostAuth.type} authentication was rejected by ${urlHost}`,
+        'error'
+      )
+      statusBarItem?.hide()
+      return
+    }
+    LogHandler.showNotification(
+      `${configSection}: ${hostAuth.type} authentication accepted by ${urlHost}`,
+      'info'
+    )
+  }
+  const resCompletion: CompletionResult = await modelService.generateCompletion(
     'User running tests the availability of the service, please respond with a simple message max 10 words'
   )
   if (typeof resCompletion === 'string' && resCompletion.length > 0) {
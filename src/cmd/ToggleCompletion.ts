@@ -0,0 +1,20 @@
+import { ExtensionState } from '@interfaces/index'
+import { RequestScheduler, StateManager } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection } from '@constants/index'
+
+/**
+ * Toggles inline completions on or off.
+ * @description Switches the extension state and aborts pending requests when completions are disabled
+ */
+export default function (): void {
+  try {
+    const state: ExtensionState = StateManager.getInstance().toggle()
+    if (state !== 'enabled') {
+      RequestScheduler.getInstance().cancel()
+    }
+    LogHandler.showNotification(`${configSection}: Completions ${state}`, 'info')
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'completion toggle', true, 'error')
+  }
+}
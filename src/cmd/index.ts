@@ -6,3 +6,13 @@ export { default as CheckConfig } from '@cmd/CheckConfig'
 export { default as SelectModel } from '@cmd/SelectModel'
 export { default as SelectDatabase } from '@cmd/SelectDatabase'
 export { default as TestService } from '@cmd/TestService'
+export { default as ToggleCompletion } from '@cmd/ToggleCompletion'
+export { default as SnoozeCompletion } from '@cmd/SnoozeCompletion'
+export { default as ShowMenu } from '@cmd/ShowMenu'
+export { default as FixDiagnostic } from '@cmd/FixDiagnostic'
+export { default as ShowStats } from '@cmd/ShowStats'
+export { default as AddAccount } from '@cmd/AddAccount'
+export { default as ListAccounts } from '@cmd/ListAccounts'
+export { default as DisableAccount } from '@cmd/DisableAccount'
+export { default as DeleteAccount } from '@cmd/DeleteAccount'
+export { default as ConfigureAuth } from '@cmd/ConfigureAuth'
@@ -1,20 +1,82 @@
 import * as vscode from 'vscode'
-import { ConfigurationData } from '@interfaces/index'
+import {
+  CompletionProfileData,
+  CompletionProfiles,
+  CompletionType,
+  ConfigurationData,
+  GenerationProfile,
+  ProviderType
+} from '@interfaces/index'
+import { PathResolver } from '@utils/index'
 import {
   configSection,
+  configProvider,
   configUrlHost,
   configDatabasePath,
   configSelectedModel,
+  configFimModels,
+  configStreamCompletion,
+  configSaveOnAccept,
+  configCompletionCandidates,
+  configGenerationProfiles,
+  configCompletionProfiles,
+  configDebounceDelay,
+  configMaxContextTokens,
+  configIncludeLanguages,
+  configExcludeLanguages,
+  configIncludePatterns,
+  configExcludePatterns,
+  defaultProvider,
   defaultHost,
   defaultDatabasePath,
-  defaultSelectedModel
+  defaultSelectedModel,
+  defaultFimModels,
+  defaultStreamCompletion,
+  defaultSaveOnAccept,
+  defaultCompletionCandidates,
+  defaultGenerationProfiles,
+  defaultCompletionProfiles,
+  maxCompletionCandidates,
+  defaultDebounceDelay,
+  defaultMaxContextTokens,
+  defaultIncludeLanguages,
+  defaultExcludeLanguages,
+  defaultIncludePatterns,
+  defaultExcludePatterns
 } from '@constants/index'
 
+/**
+ * Values of a setting per configuration scope.
+ * @description Subset of the result of WorkspaceConfiguration.inspect used to find where a setting is defined
+ */
+type ScopeValues<T> = {
+  /** Value of the user settings */
+  globalValue?: T | undefined
+  /** Value of the workspace settings */
+  workspaceValue?: T | undefined
+  /** Value of the workspace folder settings */
+  workspaceFolderValue?: T | undefined
+}
+
 /**
  * Configuration management utility.
  * @description Handles retrieval and updates of workspace settings
  */
 export default class ConfigManager {
+  /** Lower bound of the context token budget */
+  private static readonly MIN_CONTEXT_TOKENS: number = 512
+
+  /**
+   * Gets the provider from configuration.
+   * @description Retrieves the configured text generation backend or returns default value
+   * @returns Provider type or default value
+   */
+  public static getProvider(): ProviderType {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    const provider: string | undefined = config.get<string>(configProvider)
+    return provider === 'ollama' || provider === 'openai' ? provider : defaultProvider
+  }
+
   /**
    * Gets the host URL from configuration.
    * @description Retrieves the configured host URL or returns default value
@@ -27,34 +89,32 @@ export default class ConfigManager {
 
   /**
    * Updates the host configuration setting.
-   * @description Sets the host URL in workspace configuration
+   * @description Sets the host URL in the most specific settings scope that defines it
    * @param host - New host URL to set
    * @returns Promise that resolves when configuration is updated
    */
   public static async setUrlHost(host: string): Promise<void> {
-    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
-    await config.update(configUrlHost, host, vscode.ConfigurationTarget.Global)
+    await ConfigManager.updateSetting(configUrlHost, host)
   }
 
   /**
    * Gets the database path from configuration.
-   * @description Retrieves the configured database path or returns default value
-   * @returns Database path or default value
+   * @description Retrieves the configured database path or returns default value with `~` and editor variables expanded
+   * @returns Resolved database path or default value
    */
   public static getDatabasePath(): string {
     const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
-    return config.get<string>(configDatabasePath) ?? defaultDatabasePath
+    return PathResolver.resolve(config.get<string>(configDatabasePath) ?? defaultDatabasePath)
   }
 
   /**
    * Updates the database path configuration setting.
-   * @description Sets the database path in workspace configuration
+   * @description Sets the database path in the most specific settings scope that defines it
    * @param databasePath - New database path to set
    * @returns Promise that resolves when configuration is updated
    */
   public static async setDatabasePath(databasePath: string): Promise<void> {
-    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
-    await config.update(configDatabasePath, databasePath, vscode.ConfigurationTarget.Global)
+    await ConfigManager.updateSetting(configDatabasePath, databasePath)
   }
 
   /**
@@ -69,13 +129,237 @@ export default class ConfigManager {
 
   /**
    * Updates the selected model configuration setting.
-   * @description Sets the model name in workspace configuration
+   * @description Sets the model name in the most specific settings scope that defines it
    * @param model - New model name to set
    * @returns Promise that resolves when configuration is updated
    */
   public static async setSelectedModel(model: string): Promise<void> {
+    await ConfigManager.updateSetting(configSelectedModel, model)
+  }
+
+  /**
+   * Gets the fill-in-the-middle models from configuration.
+   * @description Retrieves the models that use fill-in-the-middle completion or returns default value
+   * @returns List of model names or default value
+   */
+  public static getFimModels(): string[] {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    return config.get<string[]>(configFimModels) ?? defaultFimModels
+  }
+
+  /**
+   * Checks whether a model uses fill-in-the-middle completion.
+   * @description Looks up the model in the configured fill-in-the-middle models
+   * @param model - Model name to check (defaults to the inline completion model)
+   * @returns True if the model uses fill-in-the-middle completion
+   */
+  public static isFimModel(
+    model: string = ConfigManager.getCompletionModel('completion')
+  ): boolean {
+    return model !== '' && ConfigManager.getFimModels().includes(model)
+  }
+
+  /**
+   * Gets the generation profiles from configuration.
+   * @description Merges the configured profiles over the built-in profiles of the same name
+   * @returns Generation profiles organized by name
+   */
+  public static getGenerationProfiles(): Record<string, GenerationProfile> {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    const configuredProfiles: Record<string, GenerationProfile> =
+      config.get<Record<string, GenerationProfile>>(configGenerationProfiles) ?? {}
+    const profiles: Record<string, GenerationProfile> = { ...defaultGenerationProfiles }
+    Object.entries(configuredProfiles).forEach(([name, profile]: [string, GenerationProfile]) => {
+      profiles[name] = { ...defaultGenerationProfiles[name], ...profile }
+    })
+    return profiles
+  }
+
+  /**
+   * Gets the completion profiles from configuration.
+   * @description Completion types missing in the configuration use their default profile and the selected model
+   * @returns Generation profile name and model of every completion type
+   */
+  public static getCompletionProfiles(): CompletionProfiles {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    const configuredProfiles: Partial<CompletionProfiles> =
+      config.get<Partial<CompletionProfiles>>(configCompletionProfiles) ?? {}
+    return {
+      action: { ...defaultCompletionProfiles.action, ...configuredProfiles.action },
+      completion: { ...defaultCompletionProfiles.completion, ...configuredProfiles.completion },
+      lint: { ...defaultCompletionProfiles.lint, ...configuredProfiles.lint }
+    }
+  }
+
+  /**
+   * Gets the generation profile of a completion type.
+   * @description Unknown profile names fall back to the default profile of the completion type
+   * @param type - The completion type
+   * @returns The generation parameters of the mapped profile
+   */
+  public static getGenerationProfile(type: CompletionType): GenerationProfile {
+    const profiles: Record<string, GenerationProfile> = ConfigManager.getGenerationProfiles()
+    const { profile }: CompletionProfileData = ConfigManager.getCompletionProfiles()[type]
+    return profiles[profile] ?? profiles[defaultCompletionProfiles[type].profile] ?? {}
+  }
+
+  /**
+   * Gets the model of a completion type.
+   * @param type - The completion type
+   * @returns The mapped model or the selected model if none is mapped
+   */
+  public static getCompletionModel(type: CompletionType): string {
+    const { model }: CompletionProfileData = ConfigManager.getCompletionProfiles()[type]
+    return model !== '' ? model : ConfigManager.getSelectedModel()
+  }
+
+  /**
+   * Gets the models of all completion types.
+   * @returns The model used by every completion type
+   */
+  public static getCompletionModels(): Record<CompletionType, string> {
+    return {
+      action: ConfigManager.getCompletionModel('action'),
+      completion: ConfigManager.getCompletionModel('completion'),
+      lint: ConfigManager.getCompletionModel('lint')
+    }
+  }
+
+  /**
+   * Updates the model of a completion type.
+   * @description Only the model of the completion type is written to the scope the profiles are defined in,
+   * the other completion types and the generation profile keep their configured values
+   * @param type - The completion type
+   * @param model - New model name, empty to use the selected model
+   * @returns Promise that resolves when configuration is updated
+   */
+  public static async setCompletionModel(type: CompletionType, model: string): Promise<void> {
     const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
-    await config.update(configSelectedModel, model, vscode.ConfigurationTarget.Global)
+    const scopeValues: ScopeValues<Partial<CompletionProfiles>> | undefined =
+      config.inspect<Partial<CompletionProfiles>>(configCompletionProfiles)
+    const target: vscode.ConfigurationTarget = ConfigManager.getConfigurationTarget(scopeValues)
+    const scopeProfiles: Partial<CompletionProfiles> =
+      ConfigManager.getScopeValue(scopeValues, target) ?? {}
+    await config.update(
+      configCompletionProfiles,
+      { ...scopeProfiles, [type]: { ...scopeProfiles[type], model } },
+      target
+    )
+  }
+
+  /**
+   * Gets the streaming completion mode from configuration.
+   * @description Retrieves whether inline completions are streamed or returns default value
+   * @returns Streaming mode or default value
+   */
+  public static getStreamCompletion(): boolean {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    return config.get<boolean>(configStreamCompletion) ?? defaultStreamCompletion
+  }
+
+  /**
+   * Gets the number of inline completion candidates from configuration.
+   * @description Retrieves the configured candidate count limited to the supported range or returns default value
+   * @returns Number of candidates or default value
+   */
+  public static getCompletionCandidates(): number {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    const candidates: number =
+      config.get<number>(configCompletionCandidates) ?? defaultCompletionCandidates
+    return Math.min(maxCompletionCandidates, Math.max(1, Math.floor(candidates)))
+  }
+
+  /**
+   * Gets the save on accept mode from configuration.
+   * @description Retrieves whether the file is saved after a suggestion is accepted or rejected
+   * @param scope - Optional resource scope for folder specific settings
+   * @returns Save on accept mode or default value
+   */
+  public static getSaveOnAccept(scope?: vscode.ConfigurationScope): boolean {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+      configSection,
+      scope
+    )
+    return config.get<boolean>(configSaveOnAccept) ?? defaultSaveOnAccept
+  }
+
+  /**
+   * Gets the completion debounce delay from configuration.
+   * @description Retrieves the configured debounce delay in milliseconds or returns default value
+   * @returns Debounce delay or default value
+   */
+  public static getDebounceDelay(): number {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    return Math.max(0, config.get<number>(configDebounceDelay) ?? defaultDebounceDelay)
+  }
+
+  /**
+   * Gets the maximum number of context tokens from configuration.
+   * @description Retrieves the prompt token budget used for context windowing or returns default value
+   * @returns Maximum context tokens or default value
+   */
+  public static getMaxContextTokens(): number {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    return Math.max(
+      ConfigManager.MIN_CONTEXT_TOKENS,
+      config.get<number>(configMaxContextTokens) ?? defaultMaxContextTokens
+    )
+  }
+
+  /**
+   * Gets the included language identifiers from configuration.
+   * @description Retrieves the language identifiers enabled for inline completion, honoring folder overrides
+   * @param scope - Optional resource used to resolve workspace folder settings
+   * @returns Language identifiers or default value
+   */
+  public static getIncludeLanguages(scope?: vscode.ConfigurationScope): string[] {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+      configSection,
+      scope
+    )
+    return config.get<string[]>(configIncludeLanguages) ?? defaultIncludeLanguages
+  }
+
+  /**
+   * Gets the excluded language identifiers from configuration.
+   * @description Retrieves the language identifiers disabled for inline completion, honoring folder overrides
+   * @param scope - Optional resource used to resolve workspace folder settings
+   * @returns Language identifiers or default value
+   */
+  public static getExcludeLanguages(scope?: vscode.ConfigurationScope): string[] {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+      configSection,
+      scope
+    )
+    return config.get<string[]>(configExcludeLanguages) ?? defaultExcludeLanguages
+  }
+
+  /**
+   * Gets the included glob patterns from configuration.
+   * @description Retrieves the glob patterns enabled for inline completion, honoring folder overrides
+   * @param scope - Optional resource used to resolve workspace folder settings
+   * @returns Glob patterns or default value
+   */
+  public static getIncludePatterns(scope?: vscode.ConfigurationScope): string[] {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+      configSection,
+      scope
+    )
+    return config.get<string[]>(configIncludePatterns) ?? defaultIncludePatterns
+  }
+
+  /**
+   * Gets the excluded glob patterns from configuration.
+   * @description Retrieves the glob patterns disabled for inline completion, honoring folder overrides
+   * @param scope - Optional resource used to resolve workspace folder settings
+   * @returns Glob patterns or default value
+   */
+  public static getExcludePatterns(scope?: vscode.ConfigurationScope): string[] {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+      configSection,
+      scope
+    )
+    return config.get<string[]>(configExcludePatterns) ?? defaultExcludePatterns
   }
 
   /**
@@ -85,9 +369,65 @@ export default class ConfigManager {
    */
   public static getConfig(): ConfigurationData {
     return {
+      provider: ConfigManager.getProvider(),
       urlHost: ConfigManager.getUrlHost(),
       databasePath: ConfigManager.getDatabasePath(),
-      selectedModel: ConfigManager.getSelectedModel()
+      selectedModel: ConfigManager.getSelectedModel(),
+      models: ConfigManager.getCompletionModels(),
+      fimModels: ConfigManager.getFimModels(),
+      streamCompletion: ConfigManager.getStreamCompletion(),
+      completionCandidates: ConfigManager.getCompletionCandidates(),
+      debounceDelay: ConfigManager.getDebounceDelay(),
+      maxContextTokens: ConfigManager.getMaxContextTokens()
+    }
+  }
+
+  /**
+   * Updates a setting in the scope it is defined in.
+   * @description Workspace and folder settings stay in effect instead of shadowing the updated user setting
+   * @param key - Name of the setting in the configuration section
+   * @param value - New value of the setting
+   * @returns Promise that resolves when configuration is updated
+   */
+  private static async updateSetting<T>(key: string, value: T): Promise<void> {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configSection)
+    await config.update(key, value, ConfigManager.getConfigurationTarget(config.inspect<T>(key)))
+  }
+
+  /**
+   * Gets the most specific scope a setting is defined in.
+   * @param scopeValues - Values of the setting per scope
+   * @returns The folder or workspace target when the setting is defined there, otherwise the user settings
+   */
+  private static getConfigurationTarget<T>(
+    scopeValues: ScopeValues<T> | undefined
+  ): vscode.ConfigurationTarget {
+    if (scopeValues?.workspaceFolderValue !== undefined) {
+      return vscode.ConfigurationTarget.WorkspaceFolder
+    }
+    if (scopeValues?.workspaceValue !== undefined) {
+      return vscode.ConfigurationTarget.Workspace
+    }
+    return vscode.ConfigurationTarget.Global
+  }
+
+  /**
+   * Gets the value of a setting in one scope.
+   * @param scopeValues - Values of the setting per scope
+   * @param target - The scope
+   * @returns The value defined in the scope or undefined if it is not defined there
+   */
+  private static getScopeValue<T>(
+    scopeValues: ScopeValues<T> | undefined,
+    target: vscode.ConfigurationTarget
+  ): T | undefined {
+    switch (target) {
+      case vscode.ConfigurationTarget.WorkspaceFolder:
+        return scopeValues?.workspaceFolderValue
+      case vscode.ConfigurationTarget.Workspace:
+        return scopeValues?.workspaceValue
+      case vscode.ConfigurationTarget.Global:
+        return scopeValues?.globalValue
     }
   }
 
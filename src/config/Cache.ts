@@ -27,8 +27,15 @@ export function isConfigChanged(): boolean {
     return true
   }
   return (
+    config.provider !== cachedConfig.provider ||
     config.urlHost !== cachedConfig.urlHost ||
     config.databasePath !== cachedConfig.databasePath ||
-    config.selectedModel !== cachedConfig.selectedModel
+    config.selectedModel !== cachedConfig.selectedModel ||
+    Object.values(config.models).join(',') !== Object.values(cachedConfig.models).join(',') ||
+    config.fimModels.join(',') !== cachedConfig.fimModels.join(',') ||
+    config.streamCompletion !== cachedConfig.streamCompletion ||
+    config.completionCandidates !== cachedConfig.completionCandidates ||
+    config.debounceDelay !== cachedConfig.debounceDelay ||
+    config.maxContextTokens !== cachedConfig.maxContextTokens
   )
 }
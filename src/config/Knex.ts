@@ -1,21 +1,39 @@
 import knex, { Knex } from 'knex'
-import { AccountData } from '@interfaces/index'
+import { AccountData, NewAccountData, HistoryData, HistoryStatsData } from '@interfaces/index'
+import migrationSource from '@config/Migrations'
 import { LogHandler } from '@utils/index'
+import { accountDailyWindow, accountHourlyWindow } from '@constants/index'
+
+/**
+ * Selected account identifier column.
+ * @description Uses the row id so hand-made accounts tables without an id column work as well
+ */
+const accountIdColumn: string = 'rowid AS id'
 
 /**
  * Account management utility.
- * @description Handles account retrieval from database with rate limiting support
+ * @description Handles account retrieval from database with per-account usage accounting and rate limiting.
+ * One instance is shared per database file so migrations of the same file never run side by side.
  */
 export default class KnexManager {
+  /** Shared instances keyed by database file path */
+  private static readonly instances: Map<string, KnexManager> = new Map()
   /** Database connection instance */
   private readonly database: Knex
+  /** Path to the SQLite database file */
+  private readonly filename: string
+  /** Number of users that have not destroyed the instance yet */
+  private references: number = 0
+  /** Running or finished schema migration of the connection */
+  private migration: Promise<void> | null = null
 
   /**
-   * Creates a new KnexManager instance.
+   * Private constructor to prevent direct instantiation.
    * @description Initializes database connection with SQLite configuration
    * @param filename - Path to the SQLite database file
    */
-  constructor(filename: string) {
+  private constructor(filename: string) {
+    this.filename = filename
     this.database = knex({
       client: 'sqlite3',
       connection: {
@@ -30,21 +48,351 @@ export default class KnexManager {
   }
 
   /**
-   * Gets a random account without rate limits.
-   * @description Finds accounts with no hourly or daily limits and returns a random selection
+   * Gets the shared instance of a database file.
+   * @description Creates a new instance if none is open for the file, every call must be paired with destroy
+   * @param filename - Path to the SQLite database file
+   * @returns The shared KnexManager instance of the file
+   */
+  public static getInstance(filename: string): KnexManager {
+    const instance: KnexManager = KnexManager.instances.get(filename) ?? new KnexManager(filename)
+    KnexManager.instances.set(filename, instance)
+    instance.references += 1
+    return instance
+  }
+
+  /**
+   * Gets a random account that is not rate limited.
+   * @description Skips disabled accounts, accounts limited by the service and accounts that used up their hourly or daily
+   * limit in the current window, counts of a past window are ignored so accounts reset automatically
+   * @param excludedIds - Identifiers of accounts already tried for the current request
    * @returns Promise resolving to account data or null if none found
+   * @throws Error if the accounts cannot be read, so requests are not sent without an account
+   */
+  async getRandomAccount(excludedIds: number[] = []): Promise<AccountData | null> {
+    await this.migrate()
+    const now: number = Date.now()
+    const hourlyWindow: number = this.getWindowStart(now, accountHourlyWindow)
+    const dailyWindow: number = this.getWindowStart(now, accountDailyWindow)
+    const [result]: AccountData[] = await this.database('accounts')
+      .select<AccountData[]>('*', this.database.raw(accountIdColumn))
+      .where((builder: Knex.QueryBuilder) => {
+        builder.whereNull('limited_until').orWhere('limited_until', '<=', now)
+      })
+      .where((builder: Knex.QueryBuilder) => {
+        builder
+          .whereNull('limit_hourly')
+          .orWhereNot('window_hourly', hourlyWindow)
+          .orWhereNull('window_hourly')
+          .orWhereRaw('usage_hourly < limit_hourly')
+      })
+      .where((builder: Knex.QueryBuilder) => {
+        builder
+          .whereNull('limit_daily')
+          .orWhereNot('window_daily', dailyWindow)
+          .orWhereNull('window_daily')
+          .orWhereRaw('usage_daily < limit_daily')
+      })
+      .where('disabled', false)
+      .whereNotIn('rowid', excludedIds)
+      .orderByRaw('RANDOM()')
+      .limit(1)
+    return result ?? null
+  }
+
+  /**
+   * Gets the time an account can be used again.
+   * @description Takes the rate limit of the service and the hourly and daily limits of the current windows into account
+   * @param account - The account
+   * @returns Time in milliseconds since epoch, the current time if the account is not limited
+   */
+  getAvailableTime(account: AccountData): number {
+    const now: number = Date.now()
+    const hourlyWindow: number = this.getWindowStart(now, accountHourlyWindow)
+    const dailyWindow: number = this.getWindowStart(now, accountDailyWindow)
+    const availableTimes: number[] = [now, account.limited_until ?? now]
+    if (
+      account.limit_hourly !== null &&
+      account.window_hourly === hourlyWindow &&
+      account.usage_hourly >= account.limit_hourly
+    ) {
+      availableTimes.push(hourlyWindow + accountHourlyWindow)
+    }
+    if (
+      account.limit_daily !== null &&
+      account.window_daily === dailyWindow &&
+      account.usage_daily >= account.limit_daily
+    ) {
+      availableTimes.push(dailyWindow + accountDailyWindow)
+    }
+    return Math.max(...availableTimes)
+  }
+
+  /**
+   * Gets all accounts.
+   * @description Ordered by the time they were added
+   * @returns Promise resolving to all accounts, empty on failure
+   */
+  async getAccounts(): Promise<AccountData[]> {
+    try {
+      await this.migrate()
+      return await this.database('accounts')
+        .select<AccountData[]>('*', this.database.raw(accountIdColumn))
+        .orderBy('rowid')
+    } catch (error: unknown) {
+      LogHandler.handleDatabaseError(error, 'getAccounts')
+      return []
+    }
+  }
+
+  /**
+   * Stores a new account.
+   * @description Only the reference to the credentials in secret storage is stored
+   * @param account - Metadata, secret id and optional limits of the account
+   * @returns Promise resolving to true if the account is stored
+   */
+  async insertAccount(account: NewAccountData): Promise<boolean> {
+    try {
+      await this.migrate()
+      await this.database('accounts').insert({ password: '', api_key: '', ...account })
+      return true
+    } catch (error: unknown) {
+      LogHandler.handleDatabaseError(error, 'insertAccount')
+      return false
+    }
+  }
+
+  /**
+   * Gets the accounts that still store credentials in plain text.
+   * @returns Promise resolving to accounts with a plain text API key or password, empty on failure
+   */
+  async getPlaintextAccounts(): Promise<AccountData[]> {
+    try {
+      await this.migrate()
+      return await this.database('accounts')
+        .select<AccountData[]>('*', this.database.raw(accountIdColumn))
+        .where((builder: Knex.QueryBuilder) => {
+          builder.whereNot('api_key', '').orWhereNot('password', '')
+        })
+    } catch (error: unknown) {
+      LogHandler.handleDatabaseError(error, 'getPlaintextAccounts')
+      return []
+    }
+  }
+
+  /**
+   * References the credentials of an account in secret storage.
+   * @description Empties the plain text API key and password of the account, call vacuum afterwards
+   * to remove the old values from the database file
+   * @param accountId - Identifier of the account
+   * @param secretId - Identifier of the credentials in secret storage
+   * @returns Promise resolving to true if the account is updated
+   */
+  async setSecretId(accountId: number, secretId: string): Promise<boolean> {
+    try {
+      await this.migrate()
+      await this.database('accounts')
+        .where('rowid', accountId)
+        .update({ secret_id: secretId, api_key: '', password: '' })
+      return true
+    } catch (error: unknown) {
+      LogHandler.handleDatabaseError(error, 'setSecretId')
+      return false
+    }
+  }
+
+  /**
+   * Rebuilds the database file.
+   * @description Plain text values emptied by an update stay in free pages of the file until it is rebuilt,
+   * VACUUM writes the remaining content to a new file
+   * @returns Promise resolving to true if the file is rebuilt
+   */
+  async vacuum(): Promise<boolean> {
+    try {
+      await this.database.raw('VACUUM')
+      return true
+    } catch (error: unknown) {
+      LogHandler.handleDatabaseError(error, 'vacuum')
+      return false
+    }
+  }
+
+  /**
+   * Disables or enables an account.
+   * @description Disabled accounts are never used for requests
+   * @param accountId - Identifier of the account
+   * @param disabled - True to disable the account, false to enable it
+   * @returns Promise resolving to true if the account is updated
+   */
+  async setDisabled(accountId: number, disabled: boolean): Promise<boolean> {
+    try {
+      await this.migrate()
+      await this.database('accounts').where('rowid', accountId).update({ disabled })
+      return true
+    } catch (error: unknown) {
+      LogHandler.handleDatabaseError(error, 'setDisabled')
+      return false
+    }
+  }
+
+  /**
+   * Deletes an account.
+   * @param accountId - Identifier of the account
+   * @returns Promise resolving to true if the account is deleted
+   */
+  async deleteAccount(accountId: number): Promise<boolean> {
+    try {
+      await this.migrate()
+      await this.database('accounts').where('rowid', accountId).delete()
+      return true
+    } catch (error: unknown) {
+      LogHandler.handleDatabaseError(error, 'deleteAccount')
+      return false
+    }
+  }
+
+  /**
+   * Counts a request made with an account.
+   * @description Starts a new hourly or daily count when the window of the stored count has rolled over
+   * @param accountId - Identifier of the account
+   * @returns Promise resolving when the usage is stored
+   */
+  async recordUsage(accountId: number): Promise<void> {
+    try {
+      await this.migrate()
+      const now: number = Date.now()
+      const hourlyWindow: number = this.getWindowStart(now, accountHourlyWindow)
+      const dailyWindow: number = this.getWindowStart(now, accountDailyWindow)
+      await this.database('accounts')
+        .where('rowid', accountId)
+        .update({
+          usage_hourly: this.database.raw(
+            'CASE WHEN window_hourly = ? THEN COALESCE(usage_hourly, 0) + 1 ELSE 1 END',
+            [hourlyWindow]
+          ),
+          window_hourly: hourlyWindow,
+          usage_daily: this.database.raw(
+            'CASE WHEN window_daily = ? THEN COALESCE(usage_daily, 0) + 1 ELSE 1 END',
+            [dailyWindow]
+          ),
+          window_daily: dailyWindow
+        })
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'recordUsage', false, 'error')
+    }
+  }
+
+  /**
+   * Marks an account as rate limited by the service.
+   * @description The account is skipped until the current hourly window rolls over
+   * @param accountId - Identifier of the account
+   * @returns Promise resolving when the limit is stored
+   */
+  async markLimited(accountId: number): Promise<void> {
+    try {
+      await this.migrate()
+      const limitedUntil: number =
+        this.getWindowStart(Date.now(), accountHourlyWindow) + accountHourlyWindow
+      await this.database('accounts')
+        .where('rowid', accountId)
+        .update({ limited_until: limitedUntil })
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'markLimited', false, 'error')
+    }
+  }
+
+  /**
+   * Stores a suggestion lifecycle event.
+   * @description Failures are logged without notification
+   * @param record - The history record to store
+   * @returns Promise resolving when the record is stored
+   */
+  async insertHistory(record: HistoryData): Promise<void> {
+    try {
+      await this.migrate()
+      await this.database<HistoryData>('history').insert(record)
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'insertHistory', false, 'error')
+    }
+  }
+
+  /**
+   * Gets the suggestion outcomes per model and language.
+   * @description Counts shown, accepted and dismissed suggestions and averages the latency of shown suggestions
+   * @returns Promise resolving to statistics ordered by the number of suggestions, empty on failure
+   */
+  async getHistoryStats(): Promise<HistoryStatsData[]> {
+    try {
+      await this.migrate()
+      const rows: Record<string, unknown>[] = await this.database('history')
+        .select<Record<string, unknown>[]>(
+          'model',
+          'language',
+          this.database.raw('SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS suggested', [
+            'pending'
+          ]),
+          this.database.raw('SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS accepted', ['accept']),
+          this.database.raw('SUM(CASE WHEN outcome = ? THEN 1 ELSE 0 END) AS dismissed', [
+            'dismiss'
+          ]),
+          this.database.raw(
+            'COALESCE(AVG(CASE WHEN outcome = ? THEN latency_ms END), 0) AS average_latency',
+            ['pending']
+          )
+        )
+        .groupBy('model', 'language')
+        .orderBy('suggested', 'desc')
+      return rows.map((row: Record<string, unknown>) => ({
+        model: String(row['model']),
+        language: String(row['language']),
+        suggested: Number(row['suggested']),
+        accepted: Number(row['accepted']),
+        dismissed: Number(row['dismissed']),
+        average_latency: Number(row['average_latency'])
+      }))
+    } catch (error: unknown) {
+      LogHandler.handleDatabaseError(error, 'getHistoryStats')
+      return []
+    }
+  }
+
+  /**
+   * Applies the schema migrations.
+   * @description Creates the accounts and history tables of a new database and upgrades existing tables,
+   * runs once per connection. Concurrent callers wait for the running migration, a failed migration is retried
+   * by the next call.
+   * @returns Promise resolving when the schema is up to date
    */
-  async getRandomAccount(): Promise<AccountData | null> {
+  async migrate(): Promise<void> {
+    this.migration ??= this.database.migrate.latest({ migrationSource }).then((): void => undefined)
     try {
-      const result: AccountData | undefined = await this.database<AccountData>('accounts')
-        .whereNull('limit_hourly')
-        .whereNull('limit_daily')
-        .orderByRaw('RANDOM()')
-        .first()
-      return result ?? null
+      await this.migration
     } catch (error: unknown) {
-      LogHandler.handleDatabaseError(error, 'getRandomAccount')
-      return null
+      this.migration = null
+      throw error
     }
   }
+
+  /**
+   * Releases the shared instance.
+   * @description Closes the connection pool of the SQLite database once every user has released it
+   * @returns Promise resolving when the instance is released
+   */
+  async destroy(): Promise<void> {
+    this.references -= 1
+    if (this.references > 0) {
+      return
+    }
+    KnexManager.instances.delete(this.filename)
+    await this.database.destroy()
+  }
+
+  /**
+   * Gets the start of the usage window containing a time.
+   * @param time - Time in milliseconds since epoch
+   * @param windowLength - Length of the window in milliseconds
+   * @returns Start of the window in milliseconds since epoch
+   */
+  private getWindowStart(time: number, windowLength: number): number {
+    return Math.floor(time / windowLength) * windowLength
+  }
 }
@@ -0,0 +1,141 @@
+import { Knex } from 'knex'
+
+/**
+ * Adds missing columns to an existing table.
+ * @description Keeps databases created by hand or by older versions working
+ * @param database - The database connection
+ * @param tableName - Name of the table
+ * @param columns - Column builders keyed by column name
+ * @returns Promise resolving when all columns exist
+ */
+async function addMissingColumns(
+  database: Knex,
+  tableName: string,
+  columns: Record<string, (table: Knex.TableBuilder) => void>
+): Promise<void> {
+  const missingColumns: string[] = []
+  for (const column of Object.keys(columns)) {
+    const hasColumn: boolean = await database.schema.hasColumn(tableName, column)
+    if (!hasColumn) {
+      missingColumns.push(column)
+    }
+  }
+  if (missingColumns.length === 0) {
+    return
+  }
+  await database.schema.alterTable(tableName, (table: Knex.AlterTableBuilder) => {
+    missingColumns.forEach((column: string) => {
+      columns[column]?.(table)
+    })
+  })
+}
+
+/**
+ * Usage accounting columns of the accounts table.
+ * @description Added to accounts tables created before usage accounting
+ */
+const accountUsageColumns: Record<string, (table: Knex.TableBuilder) => void> = {
+  usage_hourly: (table: Knex.TableBuilder) => {
+    table.integer('usage_hourly').notNullable().defaultTo(0)
+  },
+  usage_daily: (table: Knex.TableBuilder) => {
+    table.integer('usage_daily').notNullable().defaultTo(0)
+  },
+  window_hourly: (table: Knex.TableBuilder) => {
+    table.bigInteger('window_hourly').nullable()
+  },
+  window_daily: (table: Knex.TableBuilder) => {
+    table.bigInteger('window_daily').nullable()
+  },
+  limited_until: (table: Knex.TableBuilder) => {
+    table.bigInteger('limited_until').nullable()
+  },
+  disabled: (table: Knex.TableBuilder) => {
+    table.boolean('disabled').notNullable().defaultTo(false)
+  }
+}
+
+/**
+ * Schema migrations of the SQLite database.
+ * @description Applied in declaration order, tables that already exist are upgraded instead of recreated
+ */
+const migrations: Record<string, Knex.Migration> = {
+  '001_create_accounts': {
+    up: async (database: Knex): Promise<void> => {
+      const hasTable: boolean = await database.schema.hasTable('accounts')
+      if (hasTable) {
+        await addMissingColumns(database, 'accounts', accountUsageColumns)
+        return
+      }
+      await database.schema.createTable('accounts', (table: Knex.CreateTableBuilder) => {
+        table.increments('id')
+        table.string('email').notNullable()
+        table.string('password').notNullable().defaultTo('')
+        table.string('api_key').notNullable()
+        table.integer('limit_hourly').nullable()
+        table.integer('limit_daily').nullable()
+        Object.values(accountUsageColumns).forEach(
+          (addColumn: (table: Knex.TableBuilder) => void) => {
+            addColumn(table)
+          }
+        )
+      })
+    },
+    down: async (database: Knex): Promise<void> => {
+      await database.schema.dropTableIfExists('accounts')
+    }
+  },
+  '002_create_history': {
+    up: async (database: Knex): Promise<void> => {
+      const hasTable: boolean = await database.schema.hasTable('history')
+      if (hasTable) {
+        return
+      }
+      await database.schema.createTable('history', (table: Knex.CreateTableBuilder) => {
+        table.increments('id')
+        table.string('model').notNullable()
+        table.string('language').notNullable()
+        table.string('operation_type').notNullable()
+        table.string('title').notNullable()
+        table.string('outcome').notNullable()
+        table.integer('latency_ms').notNullable().defaultTo(0)
+        table.bigInteger('created_at').notNullable().index()
+      })
+    },
+    down: async (database: Knex): Promise<void> => {
+      await database.schema.dropTableIfExists('history')
+    }
+  },
+  '003_add_account_secret': {
+    up: async (database: Knex): Promise<void> => {
+      await addMissingColumns(database, 'accounts', {
+        secret_id: (table: Knex.TableBuilder) => {
+          table.string('secret_id').nullable()
+        }
+      })
+    },
+    down: async (database: Knex): Promise<void> => {
+      await database.schema.alterTable('accounts', (table: Knex.AlterTableBuilder) => {
+        table.dropColumn('secret_id')
+      })
+    }
+  }
+}
+
+/**
+ * Migration source bundled with the extension.
+ * @description Provides the migrations from code so no migration files have to be shipped
+ */
+const migrationSource: Knex.MigrationSource<string> = {
+  getMigrations: async (): Promise<string[]> => Promise.resolve(Object.keys(migrations)),
+  getMigrationName: (migration: string): string => migration,
+  getMigration: async (migration: string): Promise<Knex.Migration> => {
+    const knexMigration: Knex.Migration | undefined = migrations[migration]
+    if (!knexMigration) {
+      throw new Error(`Unknown migration ${migration}`)
+    }
+    return Promise.resolve(knexMigration)
+  }
+}
+
+export default migrationSource
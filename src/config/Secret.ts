@@ -0,0 +1,238 @@
+import * as vscode from 'vscode'
+import * as fs from 'fs'
+import { randomUUID } from 'crypto'
+import { AccountData, HostAuthData, HostAuthType } from '@interfaces/index'
+import { ConfigManager, KnexManager } from '@config/index'
+import { LogHandler, Validator } from '@utils/index'
+import { configDatabasePath, configSection } from '@constants/index'
+
+/**
+ * Account secret management utility.
+ * @description Keeps API keys and passwords of accounts and the authentication of service hosts in the secret storage
+ * of the editor, the database only references account secrets by secret id. Uses Singleton pattern to share the
+ * secret storage of the extension.
+ */
+export default class SecretManager {
+  /** Authentication schemes that can be stored for a host */
+  private static readonly HOST_AUTH_TYPES: HostAuthType[] = ['bearer', 'basic', 'headers']
+  /** Singleton instance of the secret manager */
+  private static instance: SecretManager | undefined
+  /** Secret storage of the extension context */
+  private storage: vscode.SecretStorage | null = null
+
+  /**
+   * Private constructor to prevent direct instantiation.
+   * @description Enforces singleton pattern by making constructor private
+   */
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Gets the singleton instance of SecretManager.
+   * @description Creates a new instance if none exists, otherwise returns the existing instance
+   * @returns The singleton SecretManager instance
+   */
+  public static getInstance(): SecretManager {
+    SecretManager.instance ??= new SecretManager()
+    return SecretManager.instance
+  }
+
+  /**
+   * Connects the secret storage of the extension.
+   * @description Moves plain text keys of the configured database now and whenever the database path changes
+   * @param storage - Secret storage of the extension context
+   * @returns Disposable removing the database path listener
+   */
+  public initialize(storage: vscode.SecretStorage): vscode.Disposable {
+    this.storage = storage
+    void this.migrateDatabase()
+    return vscode.workspace.onDidChangeConfiguration((event: vscode.ConfigurationChangeEvent) => {
+      if (event.affectsConfiguration(`${configSection}.${configDatabasePath}`)) {
+        void this.migrateDatabase()
+      }
+    })
+  }
+
+  /**
+   * Gets the API key of an account.
+   * @description Falls back to the plain text key of accounts that have not been moved yet
+   * @param account - The account
+   * @returns Promise resolving to the API key or null if the account has none
+   */
+  public async getApiKey(account: AccountData): Promise<string | null> {
+    if (this.storage && account.secret_id !== null) {
+      const apiKey: string | undefined = await this.storage.get(
+        this.getSecretName(account.secret_id, 'apiKey')
+      )
+      if (apiKey !== undefined && apiKey !== '') {
+        return apiKey
+      }
+    }
+    return account.api_key !== '' ? account.api_key : null
+  }
+
+  /**
+   * Stores the secrets of an account.
+   * @param apiKey - The API key of the account
+   * @param password - Optional password of the account
+   * @returns Promise resolving to the secret id referenced by the account
+   * @throws Error if the secret storage is not connected
+   */
+  public async storeSecrets(apiKey: string, password: string = ''): Promise<string> {
+    if (!this.storage) {
+      throw new Error('Secret storage is not available')
+    }
+    const secretId: string = randomUUID()
+    await this.storage.store(this.getSecretName(secretId, 'apiKey'), apiKey)
+    if (password !== '') {
+      await this.storage.store(this.getSecretName(secretId, 'password'), password)
+    }
+    return secretId
+  }
+
+  /**
+   * Deletes the secrets of an account.
+   * @param secretId - The secret id referenced by the account, nothing is deleted if null
+   * @returns Promise resolving when the secrets are deleted
+   */
+  public async deleteSecrets(secretId: string | null): Promise<void> {
+    if (!this.storage || secretId === null) {
+      return
+    }
+    await this.storage.delete(this.getSecretName(secretId, 'apiKey'))
+    await this.storage.delete(this.getSecretName(secretId, 'password'))
+  }
+
+  /**
+   * Gets the authentication of a service host.
+   * @param urlHost - URL of the host, hosts are matched by origin
+   * @returns Promise resolving to the authentication or null if none is stored or it cannot be read
+   */
+  public async getHostAuth(urlHost: string): Promise<HostAuthData | null> {
+    const secretName: string | null = this.getHostSecretName(urlHost)
+    if (!this.storage || secretName === null) {
+      return null
+    }
+    const storedAuth: string | undefined = await this.storage.get(secretName)
+    if (storedAuth === undefined) {
+      return null
+    }
+    try {
+      const hostAuth: HostAuthData = JSON.parse(storedAuth) as HostAuthData
+      return SecretManager.HOST_AUTH_TYPES.includes(hostAuth.type) ? hostAuth : null
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'getHostAuth', false, 'error')
+      return null
+    }
+  }
+
+  /**
+   * Stores or removes the authentication of a service host.
+   * @param urlHost - URL of the host, hosts are matched by origin
+   * @param hostAuth - The authentication or null to remove it
+   * @returns Promise resolving when the authentication is stored
+   * @throws Error if the secret storage is not connected or the host is not a valid URL
+   */
+  public async setHostAuth(urlHost: string, hostAuth: HostAuthData | null): Promise<void> {
+    const secretName: string | null = this.getHostSecretName(urlHost)
+    if (!this.storage) {
+      throw new Error('Secret storage is not available')
+    }
+    if (secretName === null) {
+      throw new Error(`Invalid host URL: ${urlHost}`)
+    }
+    if (hostAuth === null) {
+      await this.storage.delete(secretName)
+      return
+    }
+    await this.storage.store(secretName, JSON.stringify(hostAuth))
+  }
+
+  /**
+   * Gets the request headers authenticating with a service host.
+   * @description Applied for any host, account API keys of remote services are sent in addition
+   * @param urlHost - URL of the host, hosts are matched by origin
+   * @returns Promise resolving to the authentication headers, empty if the host has no authentication
+   */
+  public async getAuthHeaders(urlHost: string): Promise<Record<string, string>> {
+    const hostAuth: HostAuthData | null = await this.getHostAuth(urlHost)
+    if (!hostAuth) {
+      return {}
+    }
+    switch (hostAuth.type) {
+      case 'bearer':
+        return { Authorization: `Bearer ${hostAuth.token ?? ''}` }
+      case 'basic': {
+        const credentials: string = `${hostAuth.username ?? ''}:${hostAuth.password ?? ''}`
+        return { Authorization: `Basic ${Buffer.from(credentials).toString('base64')}` }
+      }
+      case 'headers':
+        return { ...hostAuth.headers }
+    }
+  }
+
+  /**
+   * Moves plain text keys and passwords of the configured database into the secret storage.
+   * @description Runs again for every database path, accounts that only reference secrets are skipped.
+   * A missing database is not created and the file is rebuilt after moving keys so no plain text copy is left
+   * in its free pages. Columns of hand-made databases may hold null instead of an empty string.
+   * @returns Promise resolving when all accounts are moved
+   */
+  public async migrateDatabase(): Promise<void> {
+    const databasePath: string = ConfigManager.getDatabasePath()
+    if (!this.storage || !fs.existsSync(databasePath) || !Validator.isValidPath(databasePath)) {
+      return
+    }
+    const knexManager: KnexManager = KnexManager.getInstance(databasePath)
+    try {
+      const accounts: AccountData[] = await knexManager.getPlaintextAccounts()
+      let movedCount: number = 0
+      for (const account of accounts) {
+        const secretId: string = await this.storeSecrets(
+          typeof account.api_key === 'string' ? account.api_key : '',
+          typeof account.password === 'string' ? account.password : ''
+        )
+        if (await knexManager.setSecretId(account.id, secretId)) {
+          movedCount += 1
+        } else {
+          await this.deleteSecrets(secretId)
+        }
+      }
+      if (movedCount > 0) {
+        await knexManager.vacuum()
+        LogHandler.showNotification(
+          `${configSection}: Moved ${movedCount} API key(s) from the database to secret storage`,
+          'info'
+        )
+      }
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'migrateSecrets', false, 'error')
+    } finally {
+      await knexManager.destroy()
+    }
+  }
+
+  /**
+   * Gets the secret storage key of the authentication of a host.
+   * @param urlHost - URL of the host
+   * @returns The key of the authentication or null if the host is not a valid URL
+   */
+  private getHostSecretName(urlHost: string): string | null {
+    try {
+      return `${configSection}.host.${new URL(urlHost).origin}`
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Gets the secret storage key of an account secret.
+   * @param secretId - The secret id referenced by the account
+   * @param field - The stored secret
+   * @returns The key of the secret in the secret storage
+   */
+  private getSecretName(secretId: string, field: 'apiKey' | 'password'): string {
+    return `${configSection}.account.${secretId}.${field}`
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * Configuration module exports.
- * @description Provides access to account and configuration management utilities
+ * @description Provides access to account, secret and configuration management utilities
  */
 export { updateConfigCache, isConfigChanged } from '@config/Cache'
 export { default as ConfigManager } from '@config/Base'
 export { default as KnexManager } from '@config/Knex'
+export { default as SecretManager } from '@config/Secret'
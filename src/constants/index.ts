@@ -1,3 +1,11 @@
+import { CompletionProfiles, GenerationProfile, ProviderType } from '@interfaces/index'
+
+/**
+ * Default text generation backend.
+ * @description Default provider used for model communication
+ */
+export const defaultProvider: ProviderType = 'ollama'
+
 /**
  * Default host URL for local service instance.
  * @description Default endpoint for local AI service connections
@@ -16,12 +24,153 @@ export const defaultDatabasePath: string = '~/nexora.db'
  */
 export const defaultSelectedModel: string = ''
 
+/**
+ * Default list of models using fill-in-the-middle completion mode.
+ * @description Models listed here receive prefix and suffix instead of a chat prompt
+ */
+export const defaultFimModels: string[] = []
+
+/**
+ * Default streaming mode for inline completions.
+ * @description Streams partial suggestions as ghost text while the model generates
+ */
+export const defaultStreamCompletion: boolean = true
+
+/**
+ * Default number of inline completion candidates.
+ * @description A single suggestion is requested unless more candidates are configured
+ */
+export const defaultCompletionCandidates: number = 1
+
+/**
+ * Maximum number of inline completion candidates.
+ * @description Limits the number of parallel requests per completion
+ */
+export const maxCompletionCandidates: number = 5
+
+/**
+ * Default sampling temperature for generation requests.
+ * @description Low temperature keeps suggestions close to the existing code
+ */
+export const defaultTemperature: number = 0.1
+
+/**
+ * Default duration to keep the model loaded in memory.
+ * @description Used when a generation profile does not set keep_alive
+ */
+export const defaultKeepAlive: string = '5m'
+
+/**
+ * Built-in generation profiles.
+ * @description 'fast' keeps the model loaded for inline completions, 'quality' samples a little wider for code
+ * actions and 'lint' is deterministic for diagnostic fixes. Profiles of the same name in settings override them.
+ */
+export const defaultGenerationProfiles: Record<string, GenerationProfile> = {
+  fast: { temperature: 0.1, keep_alive: '30m', think: false },
+  quality: { temperature: 0.2, top_p: 0.9, keep_alive: '5m', think: false },
+  lint: { temperature: 0, keep_alive: '5m', think: false }
+}
+
+/**
+ * Default completion profiles.
+ * @description Maps every completion type to a built-in profile and the selected model
+ */
+export const defaultCompletionProfiles: CompletionProfiles = {
+  completion: { profile: 'fast', model: '' },
+  action: { profile: 'quality', model: '' },
+  lint: { profile: 'lint', model: '' }
+}
+
+/**
+ * Temperature increase between completion candidates.
+ * @description Each additional candidate is sampled with a higher temperature to vary the suggestions
+ */
+export const candidateTemperatureStep: number = 0.3
+
+/**
+ * Default save mode for accepted suggestions.
+ * @description Accepting or rejecting a suggestion leaves the file unsaved by default
+ */
+export const defaultSaveOnAccept: boolean = false
+
+/**
+ * Default debounce delay for inline completion requests in milliseconds.
+ * @description Delay to wait after the last keystroke before requesting a completion
+ */
+export const defaultDebounceDelay: number = 300
+
+/**
+ * Default maximum number of prompt tokens for the document context.
+ * @description Large files are windowed around the cursor to stay within this budget
+ */
+export const defaultMaxContextTokens: number = 8192
+
+/**
+ * Default language identifiers enabled in addition to the whitelisted extensions.
+ * @description Empty by default, completions follow the extension whitelist
+ */
+export const defaultIncludeLanguages: string[] = []
+
+/**
+ * Default language identifiers excluded from inline completion.
+ * @description Empty by default, no language is excluded
+ */
+export const defaultExcludeLanguages: string[] = []
+
+/**
+ * Default glob patterns enabled in addition to the whitelisted extensions.
+ * @description Empty by default, completions follow the extension whitelist
+ */
+export const defaultIncludePatterns: string[] = []
+
+/**
+ * Default glob patterns excluded from inline completion.
+ * @description Empty by default, no file is excluded
+ */
+export const defaultExcludePatterns: string[] = []
+
+/**
+ * Snooze durations offered in minutes.
+ * @description Durations listed by the snooze command before asking for a custom value
+ */
+export const snoozeDurations: number[] = [5, 15, 30, 60]
+
+/**
+ * Maximum snooze duration in minutes.
+ * @description One day, keeps the snooze timer far below the maximum timer delay
+ */
+export const maxSnoozeMinutes: number = 1440
+
+/**
+ * Token budget for related file snippets in the prompt.
+ * @description Imported files and recent tabs are truncated or skipped to stay within this budget
+ */
+export const relatedContextTokens: number = 2048
+
+/**
+ * Maximum number of recently edited files remembered for the prompt.
+ * @description Older entries are dropped when more files are edited
+ */
+export const recentFileLimit: number = 10
+
+/**
+ * File extensions tried when resolving import specifiers without extension.
+ * @description Index files with the same extensions are tried for directory imports
+ */
+export const importResolveExt: string[] = ['ts', 'tsx', 'd.ts', 'js', 'jsx', 'mjs', 'cjs']
+
 /**
  * Extension configuration section name in settings.
  * @description Configuration section identifier for extension settings
  */
 export const configSection: string = 'Nexora-AI'
 
+/**
+ * Provider configuration setting key.
+ * @description Configuration key for the text generation backend setting
+ */
+export const configProvider: string = 'Provider'
+
 /**
  * Host URL configuration setting key.
  * @description Configuration key for the service host URL setting
@@ -40,6 +189,78 @@ export const configDatabasePath: string = 'DatabasePath'
  */
 export const configSelectedModel: string = 'SelectedModel'
 
+/**
+ * Fill-in-the-middle models configuration setting key.
+ * @description Configuration key for the list of models using fill-in-the-middle mode
+ */
+export const configFimModels: string = 'FimModels'
+
+/**
+ * Streaming completion configuration setting key.
+ * @description Configuration key for the streaming completion setting
+ */
+export const configStreamCompletion: string = 'StreamCompletion'
+
+/**
+ * Completion candidates configuration setting key.
+ * @description Configuration key for the number of alternative inline suggestions
+ */
+export const configCompletionCandidates: string = 'CompletionCandidates'
+
+/**
+ * Generation profiles configuration setting key.
+ * @description Configuration key for the named generation profiles
+ */
+export const configGenerationProfiles: string = 'GenerationProfiles'
+
+/**
+ * Completion profiles configuration setting key.
+ * @description Configuration key for the profile and model of every completion type
+ */
+export const configCompletionProfiles: string = 'CompletionProfiles'
+
+/**
+ * Save on accept configuration setting key.
+ * @description Configuration key for saving the file after a suggestion is accepted or rejected
+ */
+export const configSaveOnAccept: string = 'SaveOnAccept'
+
+/**
+ * Debounce delay configuration setting key.
+ * @description Configuration key for the completion debounce delay setting
+ */
+export const configDebounceDelay: string = 'DebounceDelay'
+
+/**
+ * Maximum context tokens configuration setting key.
+ * @description Configuration key for the prompt token budget setting
+ */
+export const configMaxContextTokens: string = 'MaxContextTokens'
+
+/**
+ * Included languages configuration setting key.
+ * @description Configuration key for the language identifiers enabled for inline completion
+ */
+export const configIncludeLanguages: string = 'IncludeLanguages'
+
+/**
+ * Excluded languages configuration setting key.
+ * @description Configuration key for the language identifiers disabled for inline completion
+ */
+export const configExcludeLanguages: string = 'ExcludeLanguages'
+
+/**
+ * Included patterns configuration setting key.
+ * @description Configuration key for the glob patterns enabled for inline completion
+ */
+export const configIncludePatterns: string = 'IncludePatterns'
+
+/**
+ * Excluded patterns configuration setting key.
+ * @description Configuration key for the glob patterns disabled for inline completion
+ */
+export const configExcludePatterns: string = 'ExcludePatterns'
+
 /**
  * Command identifier for opening settings.
  * @description VSCode command identifier for opening the settings panel
@@ -101,3 +322,45 @@ export const vscodeWhitelistExt: string[] = [
   'md',
   'txt'
 ]
+
+/**
+ * Maximum number of additional hunks in a generation response.
+ * @description Limits multi-hunk suggestions to keep previews reviewable
+ */
+export const maxOperationHunks: number = 8
+
+/**
+ * URI scheme of the suggestion preview documents.
+ * @description Virtual documents holding the proposed content shown in the diff editor
+ */
+export const previewScheme: string = 'nexora-preview'
+
+/**
+ * URI scheme of the completion history documents.
+ * @description Virtual documents holding the old and new content of past suggestions shown in the diff editor
+ */
+export const historyScheme: string = 'nexora-history'
+
+/**
+ * Identifier of the completion history view.
+ * @description Tree view in the explorer sidebar listing recent suggestions per file
+ */
+export const historyViewId: string = 'nexora-ai-history'
+
+/**
+ * Length of the hourly account usage window in milliseconds.
+ * @description Hourly request counts and rate limits reset when the window rolls over
+ */
+export const accountHourlyWindow: number = 60 * 60 * 1000
+
+/**
+ * Length of the daily account usage window in milliseconds.
+ * @description Daily request counts reset when the UTC day rolls over
+ */
+export const accountDailyWindow: number = 24 * 60 * 60 * 1000
+
+/**
+ * Maximum number of accounts tried for one request.
+ * @description A rate limited request is retried with a different account up to this number of attempts
+ */
+export const maxAccountAttempts: number = 3
@@ -1,26 +1,129 @@
 import * as vscode from 'vscode'
-import { FileContextData, CompletionType } from '@interfaces/index'
-import { GetFileData } from '@integrator/context/index'
+import {
+  FileContextData,
+  InfillContextData,
+  CompletionType,
+  RelatedFileData,
+  ContextWindowData
+} from '@interfaces/index'
+import {
+  GetFileData,
+  RelatedFiles,
+  ContextWindow,
+  TokenEstimator,
+  SemanticToken
+} from '@integrator/context/index'
+import { ConfigManager } from '@config/index'
+import { relatedContextTokens } from '@constants/index'
 
 /**
  * Builds context strings for code generation and linting requests.
  * Combines file data and diagnostic information into formatted context strings.
  */
 class ContextBuilder {
+  /** Maximum share of the context budget used for related files */
+  private readonly RELATED_BUDGET_RATIO: number = 0.25
+  /** Share of the infill budget used for code before the cursor */
+  private readonly PREFIX_BUDGET_RATIO: number = 0.75
+
   /**
    * Generates a user prompt with file context and diagnostic information.
+   * @description Includes the symbols declared around the cursor, snippets of imported files and recently
+   * edited tabs before the current file, and windows the current file around the cursor when the context
+   * exceeds the token budget
    * @param document - The text document to analyze
    * @param position - The cursor position within the document
    * @param lintIssue - Optional lint issue to include in the context
-   * @returns Formatted context string for code generation requests
+   * @returns Promise resolving to formatted context string for code generation requests
    */
-  public getUserPrompt(
+  public async getUserPrompt(
     document: vscode.TextDocument,
     position: vscode.Position,
     lintIssue?: string
-  ): string {
+  ): Promise<string> {
+    const maxContextTokens: number = ConfigManager.getMaxContextTokens()
     const resultFileData: FileContextData = GetFileData(document, position)
-    return this.getUserContext(resultFileData, lintIssue)
+    const relatedFiles: RelatedFileData[] = await RelatedFiles.getInstance().collect(
+      document,
+      Math.min(relatedContextTokens, Math.floor(maxContextTokens * this.RELATED_BUDGET_RATIO))
+    )
+    const relatedTokens: number = relatedFiles.reduce(
+      (total: number, relatedFile: RelatedFileData) =>
+        total + TokenEstimator.estimate(relatedFile.fileContent),
+      0
+    )
+    const symbolSummary: string = await this.getSymbolSummary(document, position)
+    const contextWindow: ContextWindowData = await ContextWindow.getWindow(
+      document,
+      position,
+      maxContextTokens - relatedTokens - TokenEstimator.estimate(symbolSummary)
+    )
+    return this.getUserContext(
+      resultFileData,
+      contextWindow,
+      symbolSummary,
+      relatedFiles,
+      lintIssue
+    )
+  }
+
+  /**
+   * Generates the fill-in-the-middle context around the cursor.
+   * @description Trims the prefix from the start and the suffix from the end at line boundaries to fit the token budget
+   * @param document - The text document to analyze
+   * @param position - The cursor position within the document
+   * @returns Prefix and suffix surrounding the cursor for infill requests
+   */
+  public getInfillContext(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): InfillContextData {
+    const { selectedData }: FileContextData = GetFileData(document, position)
+    const maxContextTokens: number = ConfigManager.getMaxContextTokens()
+    const prefixTokens: number = Math.floor(maxContextTokens * this.PREFIX_BUDGET_RATIO)
+    const maxPrefixLength: number = TokenEstimator.getMaxChars(prefixTokens)
+    const maxSuffixLength: number = TokenEstimator.getMaxChars(maxContextTokens - prefixTokens)
+    const {
+      selectedTextBeforeCursor: prefix,
+      selectedTextAfterCursor: suffix
+    }: FileContextData['selectedData'] = selectedData
+    return {
+      prefix: this.trimPrefix(prefix, maxPrefixLength),
+      suffix: this.trimSuffix(suffix, maxSuffixLength)
+    }
+  }
+
+  /**
+   * Trims the start of the prefix to a maximum length.
+   * @description Cuts at the first line break within the kept text, falls back to a character cut when the kept
+   * text has no line break
+   * @param prefix - Code before the cursor
+   * @param maxLength - Maximum number of characters
+   * @returns The end of the prefix fitting the maximum length
+   */
+  private trimPrefix(prefix: string, maxLength: number): string {
+    if (prefix.length <= maxLength) {
+      return prefix
+    }
+    const start: number = prefix.length - maxLength
+    const lineBreak: number = prefix.indexOf('\n', start)
+    return prefix.slice(lineBreak === -1 ? start : lineBreak + 1)
+  }
+
+  /**
+   * Trims the end of the suffix to a maximum length.
+   * @description Cuts at the last line break within the kept text, falls back to a character cut when the kept
+   * text has no line break
+   * @param suffix - Code after the cursor
+   * @param maxLength - Maximum number of characters
+   * @returns The start of the suffix fitting the maximum length
+   */
+  private trimSuffix(suffix: string, maxLength: number): string {
+    if (suffix.length <= maxLength) {
+      return suffix
+    }
+    const lineBreak: number = suffix.lastIndexOf('\n', maxLength)
+    return suffix.slice(0, lineBreak <= 0 ? maxLength : lineBreak)
   }
 
   /**
@@ -35,7 +138,9 @@ class ContextBuilder {
 
 # Guidelines
 - Selected position is where the user is, you can edit or add code before or after the selected position
+- For EDIT and DELETE, prefer code nearest to the selected position and set startLine/endLine to the lines of oldContent
 - If you want to edit or add the code, make sure not to duplicate the existing code
+- Lines replaced by "... [Ln:X-Y omitted] ..." markers are hidden, never use them in oldContent
 
 # Operation Types & Rules
 - **ADD**: Add new code that doesn't exist in the file
@@ -51,6 +156,13 @@ class ContextBuilder {
   - oldContent: "existing code to remove"
   - newContent: ""
   
+- **MULTIPLE HUNKS**: Change several places of the file at once (e.g. an import and a call site)
+  - Use the type of the change nearest to the selected position as the main type
+  - Put the other changes in "operations", each with type "add", "edit" or "delete", oldContent, newContent and startLine/endLine
+  - An "add" operation has oldContent "" and needs "startLine" (the line the new code is inserted at)
+    or "anchor" (existing code the new code is inserted after)
+  - Never use "operations" with NONE
+
 - **NONE**: No changes needed
   - Should not change the code
   - oldContent: ""
@@ -71,6 +183,43 @@ class ContextBuilder {
   "title": "Fix syntax error in the code"
 }
 
+## Example For Multiple Hunks
+{
+  "type": "edit",
+  "oldContent": "const total = sum(values);",
+  "newContent": "const total = sumBy(values, 'price');",
+  "title": "Use sumBy for totals",
+  "startLine": 12,
+  "endLine": 12,
+  "operations": [
+    {
+      "type": "edit",
+      "oldContent": "import { sum } from './math';",
+      "newContent": "import { sum, sumBy } from './math';",
+      "startLine": 1,
+      "endLine": 1
+    }
+  ]
+}
+
+## Example For Multiple Hunks With Added Code
+{
+  "type": "edit",
+  "oldContent": "const items = load();",
+  "newContent": "const items = sortBy(load(), 'name');",
+  "title": "Sort loaded items by name",
+  "startLine": 20,
+  "endLine": 20,
+  "operations": [
+    {
+      "type": "add",
+      "oldContent": "",
+      "newContent": "import { sortBy } from 'lodash';",
+      "anchor": "import { load } from './store';"
+    }
+  ]
+}
+
 ## Example For Add Content
 - Should add code after the selected position (not support previous line add)
 {
@@ -108,7 +257,17 @@ class ContextBuilder {
   "type": "add" | "edit" | "delete" | "none",
   "oldContent": string,
   "newContent": string,
-  "title": string
+  "title": string,
+  "startLine"?: number,
+  "endLine"?: number,
+  "operations"?: Array<{
+    "type": "add" | "edit" | "delete",
+    "oldContent": string,
+    "newContent": string,
+    "startLine"?: number,
+    "endLine"?: number,
+    "anchor"?: string
+  }>
 }
 `.trim()
   }
@@ -155,26 +314,85 @@ Focus on fixing the lint issue, not creating new features.
   /**
    * Creates a formatted context string from file data and diagnostics.
    * @param context - Combined file context data containing file information and diagnostic metadata
+   * @param contextWindow - Current file content fitted into the token budget
+   * @param symbolSummary - Symbols declared around the cursor reported by the language server
+   * @param relatedFiles - Ranked snippets of files related to the current document
    * @param lintIssue - Optional lint issue to include in the context
    * @returns Formatted context string with file details and diagnostic information
    */
-  private getUserContext(context: FileContextData, lintIssue?: string): string {
+  private getUserContext(
+    context: FileContextData,
+    contextWindow: ContextWindowData,
+    symbolSummary: string,
+    relatedFiles: RelatedFileData[],
+    lintIssue?: string
+  ): string {
     const { fileData, selectedData }: FileContextData = context
     const lintSection: string =
       lintIssue != null && lintIssue.trim().length > 0 ? `# Lint Issue\n- ${lintIssue}` : ''
+    const symbolSection: string =
+      symbolSummary !== ''
+        ? `# Symbols In Scope\nDeclared symbols reported by the language server, use their exact names.\n${symbolSummary}`
+        : ''
+    const relatedSection: string = this.getRelatedContext(relatedFiles)
+    const windowInfo: string = contextWindow.isTrimmed
+      ? `\n- Context Window: [Ln:${contextWindow.startLine}-${contextWindow.endLine}] (omitted lines are marked and must not be edited)`
+      : ''
     const contextString: string = `
 # Trigger Context
 - File Path: ${fileData.filePath}
 - Total Lines: ${fileData.fileTotalLines}
-- Selected Position: [Ln:${selectedData.selectedLineNumber}] [Char:${selectedData.selectedCharacterPosition}]
+- Selected Position: [Ln:${selectedData.selectedLineNumber}] [Char:${selectedData.selectedCharacterPosition}]${windowInfo}
 
 ${lintSection}
 
+${symbolSection}
+
+${relatedSection}
+
 # Full Code Content
-\`\`\`${fileData.fileLanguageId}\n${fileData.fileContent}\n\`\`\`
+\`\`\`${fileData.fileLanguageId}\n${contextWindow.content}\n\`\`\`
 `.trim()
     return contextString
   }
+
+  /**
+   * Gets the summary of symbols declared around the cursor.
+   * @description Returns an empty summary when no semantic token provider is available for the language
+   * @param document - The text document to analyze
+   * @param position - The cursor position within the document
+   * @returns Promise resolving to the symbol summary or an empty string
+   */
+  private async getSymbolSummary(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<string> {
+    try {
+      return await SemanticToken.getSymbolSummary(document, position)
+    } catch {
+      return ''
+    }
+  }
+
+  /**
+   * Creates a formatted section with snippets of related files.
+   * @param relatedFiles - Ranked snippets of files related to the current document
+   * @returns Formatted related files section or empty string if there are none
+   */
+  private getRelatedContext(relatedFiles: RelatedFileData[]): string {
+    if (relatedFiles.length === 0) {
+      return ''
+    }
+    const snippets: string[] = relatedFiles.map((relatedFile: RelatedFileData) => {
+      const sourceLabel: string = relatedFile.source === 'import' ? 'Imported' : 'Recently edited'
+      return `## ${relatedFile.filePath} (${sourceLabel})
+\`\`\`${relatedFile.fileLanguageId}\n${relatedFile.fileContent}\n\`\`\``
+    })
+    return `# Related Files
+Use these files for existing APIs, do not modify them.
+
+${snippets.join('\n\n')}`
+  }
 }
 
 /**
@@ -0,0 +1,340 @@
+import * as vscode from 'vscode'
+import { ContextWindowData } from '@interfaces/index'
+import { TokenEstimator } from '@integrator/context/index'
+
+/** Line prefixes of import statements across common languages */
+const importPrefixes: string[] = [
+  'import ',
+  'import{',
+  'from ',
+  'export * from',
+  '#include',
+  '#import',
+  '@import',
+  'using ',
+  'package ',
+  'use ',
+  'require ',
+  'require(',
+  'library(',
+  'extern crate'
+]
+
+/**
+ * Windows large documents around the cursor to fit a token budget.
+ * @description Keeps imports, enclosing scope headers and the lines nearest to the cursor,
+ * and replaces omitted ranges with elision markers that name the omitted line numbers
+ */
+export default class ContextWindow {
+  /** Share of the budget reserved for elision markers */
+  private static readonly MARKER_BUDGET_RATIO: number = 0.05
+  /** Share of the budget available for import lines */
+  private static readonly IMPORT_BUDGET_RATIO: number = 0.2
+  /** Maximum number of signature lines kept per enclosing scope */
+  private static readonly MAX_HEADER_LINES: number = 3
+
+  /**
+   * Gets the document content fitted into a token budget.
+   * @description Returns the full content when it fits, otherwise a window around the cursor
+   * @param document - The text document to window
+   * @param position - The cursor position the window is centered on
+   * @param maxTokens - Maximum number of tokens for the content
+   * @returns Promise resolving to the windowed content
+   */
+  public static async getWindow(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    maxTokens: number
+  ): Promise<ContextWindowData> {
+    const content: string = document.getText()
+    const charsPerToken: number = TokenEstimator.getCharsPerToken()
+    if (TokenEstimator.estimateWithRatio(content, charsPerToken) <= maxTokens) {
+      return { content, startLine: 1, endLine: document.lineCount, isTrimmed: false }
+    }
+    let remainingTokens: number = Math.floor(maxTokens * (1 - this.MARKER_BUDGET_RATIO))
+    const keptLines: Set<number> = new Set()
+    const headerLines: number[] = await this.getScopeHeaders(document, position)
+    remainingTokens -= this.keepLines(
+      document,
+      headerLines,
+      keptLines,
+      remainingTokens,
+      charsPerToken
+    )
+    const importBudget: number = Math.floor(maxTokens * this.IMPORT_BUDGET_RATIO)
+    const importLines: number[] = this.getImportLines(document, position.line)
+    remainingTokens -= this.keepLines(
+      document,
+      importLines,
+      keptLines,
+      Math.min(importBudget, remainingTokens),
+      charsPerToken
+    )
+    const [startLine, endLine]: [number, number] = this.expandWindow(
+      document,
+      position.line,
+      keptLines,
+      remainingTokens,
+      charsPerToken
+    )
+    return {
+      content: this.assemble(document, keptLines),
+      startLine: startLine + 1,
+      endLine: endLine + 1,
+      isTrimmed: true
+    }
+  }
+
+  /**
+   * Adds lines to the kept set while they fit into the budget.
+   * @param document - The text document
+   * @param lines - Zero-based line numbers to keep, in priority order
+   * @param keptLines - Set of kept line numbers, updated in place
+   * @param budget - Maximum number of tokens for the added lines
+   * @param charsPerToken - Characters per token of the model
+   * @returns Number of tokens used by the added lines
+   */
+  private static keepLines(
+    document: vscode.TextDocument,
+    lines: number[],
+    keptLines: Set<number>,
+    budget: number,
+    charsPerToken: number
+  ): number {
+    let usedTokens: number = 0
+    for (const line of lines) {
+      if (keptLines.has(line)) {
+        continue
+      }
+      const lineTokens: number = this.getLineTokens(document, line, charsPerToken)
+      if (usedTokens + lineTokens > budget) {
+        break
+      }
+      keptLines.add(line)
+      usedTokens += lineTokens
+    }
+    return usedTokens
+  }
+
+  /**
+   * Expands the window around the cursor line by line until the budget is used.
+   * @description Alternates between the line above and below the window
+   * @param document - The text document
+   * @param cursorLine - Zero-based cursor line
+   * @param keptLines - Set of kept line numbers, updated in place
+   * @param budget - Maximum number of tokens for the window
+   * @param charsPerToken - Characters per token of the model
+   * @returns Zero-based first and last line of the window
+   */
+  private static expandWindow(
+    document: vscode.TextDocument,
+    cursorLine: number,
+    keptLines: Set<number>,
+    budget: number,
+    charsPerToken: number
+  ): [number, number] {
+    let startLine: number = cursorLine
+    let endLine: number = cursorLine
+    let remainingTokens: number = budget - this.getLineTokens(document, cursorLine, charsPerToken)
+    let isExpanding: boolean = true
+    while (isExpanding) {
+      const upTokens: number | null = this.getExpandTokens(
+        document,
+        startLine - 1,
+        keptLines,
+        remainingTokens,
+        charsPerToken
+      )
+      if (upTokens !== null) {
+        startLine -= 1
+        remainingTokens -= upTokens
+      }
+      const downTokens: number | null = this.getExpandTokens(
+        document,
+        endLine + 1,
+        keptLines,
+        remainingTokens,
+        charsPerToken
+      )
+      if (downTokens !== null) {
+        endLine += 1
+        remainingTokens -= downTokens
+      }
+      isExpanding = upTokens !== null || downTokens !== null
+    }
+    for (let line: number = startLine; line <= endLine; line++) {
+      keptLines.add(line)
+    }
+    return [startLine, endLine]
+  }
+
+  /**
+   * Gets the tokens needed to add a line to the window.
+   * @param document - The text document
+   * @param line - Zero-based line number to add
+   * @param keptLines - Set of kept line numbers, already kept lines cost nothing
+   * @param remainingTokens - Tokens left in the budget
+   * @param charsPerToken - Characters per token of the model
+   * @returns Token cost of the line or null if it is outside the document or does not fit
+   */
+  private static getExpandTokens(
+    document: vscode.TextDocument,
+    line: number,
+    keptLines: Set<number>,
+    remainingTokens: number,
+    charsPerToken: number
+  ): number | null {
+    if (line < 0 || line >= document.lineCount) {
+      return null
+    }
+    const lineTokens: number = keptLines.has(line)
+      ? 0
+      : this.getLineTokens(document, line, charsPerToken)
+    return lineTokens <= remainingTokens ? lineTokens : null
+  }
+
+  /**
+   * Joins the kept lines and replaces gaps with elision markers.
+   * @param document - The text document
+   * @param keptLines - Set of kept zero-based line numbers
+   * @returns Windowed document content
+   */
+  private static assemble(document: vscode.TextDocument, keptLines: Set<number>): string {
+    const sortedLines: number[] = [...keptLines].sort((left: number, right: number) => left - right)
+    const output: string[] = []
+    let previousLine: number = -1
+    for (const line of sortedLines) {
+      if (line > previousLine + 1) {
+        output.push(this.getElisionMarker(previousLine + 2, line))
+      }
+      output.push(document.lineAt(line).text)
+      previousLine = line
+    }
+    if (previousLine < document.lineCount - 1) {
+      output.push(this.getElisionMarker(previousLine + 2, document.lineCount))
+    }
+    return output.join('\n')
+  }
+
+  /**
+   * Gets the header lines of the scopes enclosing the cursor.
+   * @description Uses the document symbol provider, falling back to indentation for plain text
+   * @param document - The text document
+   * @param position - The cursor position
+   * @returns Promise resolving to zero-based header lines, outermost scope first
+   */
+  private static async getScopeHeaders(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<number[]> {
+    try {
+      const symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined =
+        await vscode.commands.executeCommand<
+          Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined
+        >('vscode.executeDocumentSymbolProvider', document.uri)
+      const documentSymbols: vscode.DocumentSymbol[] = (symbols ?? []).filter(
+        (
+          symbol: vscode.DocumentSymbol | vscode.SymbolInformation
+        ): symbol is vscode.DocumentSymbol => 'children' in symbol
+      )
+      if (documentSymbols.length > 0) {
+        return this.getSymbolHeaders(documentSymbols, position)
+      }
+    } catch {
+      /** Fall back to indentation when no symbol provider is available */
+    }
+    return this.getIndentHeaders(document, position.line)
+  }
+
+  /**
+   * Gets the header lines of the document symbols enclosing the cursor.
+   * @param symbols - Document symbols of the current nesting level
+   * @param position - The cursor position
+   * @returns Zero-based header lines, outermost scope first
+   */
+  private static getSymbolHeaders(
+    symbols: vscode.DocumentSymbol[],
+    position: vscode.Position
+  ): number[] {
+    const enclosingSymbol: vscode.DocumentSymbol | undefined = symbols.find(
+      (symbol: vscode.DocumentSymbol) => symbol.range.contains(position)
+    )
+    if (!enclosingSymbol) {
+      return []
+    }
+    const headerLines: number[] = []
+    const { line: firstHeaderLine }: vscode.Position = enclosingSymbol.range.start
+    const lastHeaderLine: number = Math.min(
+      enclosingSymbol.selectionRange.end.line,
+      firstHeaderLine + this.MAX_HEADER_LINES - 1
+    )
+    for (let line: number = firstHeaderLine; line <= lastHeaderLine; line++) {
+      headerLines.push(line)
+    }
+    return [...headerLines, ...this.getSymbolHeaders(enclosingSymbol.children, position)]
+  }
+
+  /**
+   * Gets the header lines of the enclosing scopes by indentation.
+   * @description Each non-empty line above the cursor with a smaller indentation opens an enclosing scope
+   * @param document - The text document
+   * @param cursorLine - Zero-based cursor line
+   * @returns Zero-based header lines, outermost scope first
+   */
+  private static getIndentHeaders(document: vscode.TextDocument, cursorLine: number): number[] {
+    const headerLines: number[] = []
+    let indent: number = document.lineAt(cursorLine).firstNonWhitespaceCharacterIndex
+    for (let line: number = cursorLine - 1; line >= 0 && indent > 0; line--) {
+      const textLine: vscode.TextLine = document.lineAt(line)
+      const lineIndent: number = textLine.firstNonWhitespaceCharacterIndex
+      const isClosing: boolean = /^[}\])]/.test(textLine.text.trim())
+      if (!textLine.isEmptyOrWhitespace && !isClosing && lineIndent < indent) {
+        headerLines.unshift(line)
+        indent = lineIndent
+      }
+    }
+    return headerLines
+  }
+
+  /**
+   * Gets the import lines of the document above the cursor.
+   * @param document - The text document
+   * @param cursorLine - Zero-based cursor line
+   * @returns Zero-based import lines in document order
+   */
+  private static getImportLines(document: vscode.TextDocument, cursorLine: number): number[] {
+    const importLines: number[] = []
+    for (let line: number = 0; line < cursorLine; line++) {
+      const text: string = document.lineAt(line).text.trim()
+      if (importPrefixes.some((prefix: string) => text.startsWith(prefix))) {
+        importLines.push(line)
+      }
+    }
+    return importLines
+  }
+
+  /**
+   * Estimates the tokens of a line including its line break.
+   * @param document - The text document
+   * @param line - Zero-based line number
+   * @param charsPerToken - Characters per token of the model
+   * @returns Approximate token count
+   */
+  private static getLineTokens(
+    document: vscode.TextDocument,
+    line: number,
+    charsPerToken: number
+  ): number {
+    return TokenEstimator.estimateWithRatio(`${document.lineAt(line).text}\n`, charsPerToken)
+  }
+
+  /**
+   * Creates the marker replacing an omitted range of lines.
+   * @param startLine - First omitted line (1-based)
+   * @param endLine - Last omitted line (1-based)
+   * @returns Elision marker line
+   */
+  private static getElisionMarker(startLine: number, endLine: number): string {
+    return `... [Ln:${startLine}-${endLine} omitted] ...`
+  }
+}
@@ -0,0 +1,325 @@
+import * as vscode from 'vscode'
+import { importResolveExt } from '@constants/index'
+
+/**
+ * Path mapping read from a tsconfig or jsconfig file.
+ * @description Contains the base directory and the compilerOptions.paths aliases
+ */
+type PathMapping = {
+  /** Directory the alias targets are resolved against */
+  baseUri: vscode.Uri
+  /** Alias patterns mapped to their target patterns */
+  paths: Record<string, string[]>
+}
+
+/**
+ * Cached path mapping of a config file.
+ * @description Re-read when the modification time of the config file changes
+ */
+type PathMappingCache = {
+  /** Modification time of the config file when it was read */
+  mtime: number
+  /** Parsed path mapping or null if the file has no usable paths */
+  mapping: PathMapping | null
+}
+
+/**
+ * Structure of the compiler options relevant for import resolution.
+ * @description Subset of tsconfig.json compilerOptions
+ */
+type CompilerConfig = {
+  compilerOptions?: {
+    baseUrl?: string
+    paths?: Record<string, string[]>
+  }
+}
+
+/** Config files searched for path aliases, nearest directory first */
+const configFileNames: string[] = ['tsconfig.json', 'jsconfig.json']
+
+/** Matches module specifiers of import, export-from and require statements */
+const importPattern: RegExp = /\b(?:from|import|require)\s*\(?['"]([^'"\r\n]+)['"]/g
+
+/**
+ * Gets the end index of a JSON string token.
+ * @param text - The JSON text
+ * @param start - Index of the opening quote
+ * @returns Index after the closing quote
+ */
+function getStringEnd(text: string, start: number): number {
+  let end: number = start + 1
+  while (end < text.length && text.charAt(end) !== '"') {
+    end += text.charAt(end) === '\\' ? 2 : 1
+  }
+  return end + 1
+}
+
+/**
+ * Gets the end index of a comment.
+ * @param text - The JSON text
+ * @param start - Index where a comment may start
+ * @returns Index after the comment, or the start index if no comment starts there
+ */
+function getCommentEnd(text: string, start: number): number {
+  if (text.startsWith('//', start)) {
+    const end: number = text.indexOf('\n', start)
+    return end === -1 ? text.length : end
+  }
+  if (text.startsWith('/*', start)) {
+    const end: number = text.indexOf('*/', start + 2)
+    return end === -1 ? text.length : end + 2
+  }
+  return start
+}
+
+/**
+ * Removes comments and trailing commas from a JSON with comments document.
+ * @description Keeps comment markers inside strings, e.g. path aliases such as "@integrator/*"
+ * @param text - The JSON with comments text
+ * @returns Plain JSON text
+ */
+function stripJsonComments(text: string): string {
+  let result: string = ''
+  let index: number = 0
+  while (index < text.length) {
+    if (text.charAt(index) === '"') {
+      const stringEnd: number = getStringEnd(text, index)
+      result += text.slice(index, stringEnd)
+      index = stringEnd
+      continue
+    }
+    const commentEnd: number = getCommentEnd(text, index)
+    if (commentEnd > index) {
+      index = commentEnd
+    } else {
+      result += text.charAt(index)
+      index += 1
+    }
+  }
+  return result.replace(/,(\s*[}\]])/g, '$1')
+}
+
+/**
+ * Resolves the files imported by a document.
+ * @description Resolves relative specifiers and tsconfig/jsconfig path aliases to workspace files
+ */
+export default class ImportResolver {
+  /** Parsed path mappings keyed by config file URI */
+  private static readonly mappingCache: Map<string, PathMappingCache> = new Map()
+
+  /**
+   * Resolves the imports of a document to existing files.
+   * @description Package imports without a matching path alias are ignored
+   * @param document - The text document to analyze
+   * @returns Promise resolving to the URIs of imported files in import order
+   */
+  public static async resolve(document: vscode.TextDocument): Promise<vscode.Uri[]> {
+    const specifiers: string[] = this.getSpecifiers(document.getText())
+    if (specifiers.length === 0) {
+      return []
+    }
+    const mapping: PathMapping | null = await this.getPathMapping(document.uri)
+    const extensions: string[] = this.getExtensions(document.uri)
+    const resolvedUris: vscode.Uri[] = []
+    const seenUris: Set<string> = new Set([document.uri.toString()])
+    for (const specifier of specifiers) {
+      const candidates: vscode.Uri[] = this.getCandidates(document.uri, specifier, mapping)
+      const resolvedUri: vscode.Uri | null = await this.findFile(candidates, extensions)
+      if (resolvedUri && !seenUris.has(resolvedUri.toString())) {
+        seenUris.add(resolvedUri.toString())
+        resolvedUris.push(resolvedUri)
+      }
+    }
+    return resolvedUris
+  }
+
+  /**
+   * Extracts the unique module specifiers of a document.
+   * @param text - The document text
+   * @returns Module specifiers in order of appearance
+   */
+  private static getSpecifiers(text: string): string[] {
+    const specifiers: Set<string> = new Set()
+    for (const match of text.matchAll(importPattern)) {
+      const specifier: string | undefined = match[1]
+      if (specifier !== undefined) {
+        specifiers.add(specifier)
+      }
+    }
+    return [...specifiers]
+  }
+
+  /**
+   * Gets the file extensions tried for specifiers without extension.
+   * @param documentUri - URI of the importing document
+   * @returns Extensions with the document's own extension first
+   */
+  private static getExtensions(documentUri: vscode.Uri): string[] {
+    const fileName: string = documentUri.path.split('/').pop() ?? ''
+    const extension: string = fileName.includes('.')
+      ? fileName.slice(fileName.lastIndexOf('.') + 1)
+      : ''
+    return [...new Set([extension, ...importResolveExt].filter((ext: string) => ext !== ''))]
+  }
+
+  /**
+   * Builds the candidate paths of a module specifier.
+   * @param documentUri - URI of the importing document
+   * @param specifier - The module specifier
+   * @param mapping - Path aliases of the nearest config file
+   * @returns Candidate URIs without extension resolution
+   */
+  private static getCandidates(
+    documentUri: vscode.Uri,
+    specifier: string,
+    mapping: PathMapping | null
+  ): vscode.Uri[] {
+    if (specifier.startsWith('.')) {
+      return [vscode.Uri.joinPath(documentUri, '..', specifier)]
+    }
+    if (!mapping) {
+      return []
+    }
+    const candidates: vscode.Uri[] = []
+    for (const [pattern, targets] of Object.entries(mapping.paths)) {
+      const wildcardMatch: string | null = this.matchAlias(pattern, specifier)
+      if (wildcardMatch === null) {
+        continue
+      }
+      targets.forEach((target: string) => {
+        candidates.push(vscode.Uri.joinPath(mapping.baseUri, target.replace('*', wildcardMatch)))
+      })
+    }
+    return candidates
+  }
+
+  /**
+   * Matches a module specifier against a path alias pattern.
+   * @param pattern - Alias pattern with at most one wildcard, e.g. "@integrator/*"
+   * @param specifier - The module specifier
+   * @returns The text matched by the wildcard, empty for exact matches, or null if not matching
+   */
+  private static matchAlias(pattern: string, specifier: string): string | null {
+    const wildcardIndex: number = pattern.indexOf('*')
+    if (wildcardIndex === -1) {
+      return pattern === specifier ? '' : null
+    }
+    const prefix: string = pattern.slice(0, wildcardIndex)
+    const suffix: string = pattern.slice(wildcardIndex + 1)
+    if (
+      specifier.length < prefix.length + suffix.length ||
+      !specifier.startsWith(prefix) ||
+      !specifier.endsWith(suffix)
+    ) {
+      return null
+    }
+    return specifier.slice(prefix.length, specifier.length - suffix.length)
+  }
+
+  /**
+   * Finds the first existing file among the candidates.
+   * @description Tries the exact path, the path with each extension and index files of directories
+   * @param candidates - Candidate URIs without extension resolution
+   * @param extensions - File extensions to try
+   * @returns Promise resolving to the existing file URI or null if none exists
+   */
+  private static async findFile(
+    candidates: vscode.Uri[],
+    extensions: string[]
+  ): Promise<vscode.Uri | null> {
+    for (const candidate of candidates) {
+      const paths: string[] = [
+        candidate.path,
+        ...extensions.map((ext: string) => `${candidate.path}.${ext}`),
+        ...extensions.map((ext: string) => `${candidate.path}/index.${ext}`)
+      ]
+      for (const path of paths) {
+        const fileUri: vscode.Uri = candidate.with({ path })
+        const mtime: number | null = await this.getFileTime(fileUri)
+        if (mtime !== null) {
+          return fileUri
+        }
+      }
+    }
+    return null
+  }
+
+  /**
+   * Gets the path aliases of the config file nearest to a document.
+   * @description Walks up from the document directory to its workspace folder root
+   * @param documentUri - URI of the importing document
+   * @returns Promise resolving to the path mapping or null if no config file defines paths
+   */
+  private static async getPathMapping(documentUri: vscode.Uri): Promise<PathMapping | null> {
+    const workspaceFolder: vscode.WorkspaceFolder | undefined =
+      vscode.workspace.getWorkspaceFolder(documentUri)
+    if (!workspaceFolder) {
+      return null
+    }
+    let directoryUri: vscode.Uri = vscode.Uri.joinPath(documentUri, '..')
+    while (directoryUri.path.startsWith(workspaceFolder.uri.path)) {
+      for (const configFileName of configFileNames) {
+        const configUri: vscode.Uri = vscode.Uri.joinPath(directoryUri, configFileName)
+        const mtime: number | null = await this.getFileTime(configUri)
+        if (mtime !== null) {
+          return this.readPathMapping(configUri, mtime)
+        }
+      }
+      if (directoryUri.path === workspaceFolder.uri.path) {
+        break
+      }
+      directoryUri = vscode.Uri.joinPath(directoryUri, '..')
+    }
+    return null
+  }
+
+  /**
+   * Reads the path aliases of a config file.
+   * @description Uses the cached mapping while the file is unchanged
+   * @param configUri - URI of the tsconfig or jsconfig file
+   * @param mtime - Current modification time of the file
+   * @returns Promise resolving to the path mapping or null if the file defines no paths
+   */
+  private static async readPathMapping(
+    configUri: vscode.Uri,
+    mtime: number
+  ): Promise<PathMapping | null> {
+    const cacheKey: string = configUri.toString()
+    const cached: PathMappingCache | undefined = this.mappingCache.get(cacheKey)
+    if (cached?.mtime === mtime) {
+      return cached.mapping
+    }
+    let mapping: PathMapping | null = null
+    try {
+      const content: Uint8Array = await vscode.workspace.fs.readFile(configUri)
+      const config: CompilerConfig = JSON.parse(
+        stripJsonComments(new TextDecoder().decode(content))
+      ) as CompilerConfig
+      const paths: Record<string, string[]> | undefined = config.compilerOptions?.paths
+      if (paths) {
+        mapping = {
+          baseUri: vscode.Uri.joinPath(configUri, '..', config.compilerOptions?.baseUrl ?? '.'),
+          paths
+        }
+      }
+    } catch {
+      mapping = null
+    }
+    this.mappingCache.set(cacheKey, { mtime, mapping })
+    return mapping
+  }
+
+  /**
+   * Gets the modification time of a file.
+   * @param fileUri - URI of the file
+   * @returns Promise resolving to the modification time or null if the file does not exist
+   */
+  private static async getFileTime(fileUri: vscode.Uri): Promise<number | null> {
+    try {
+      const stat: vscode.FileStat = await vscode.workspace.fs.stat(fileUri)
+      return stat.type === vscode.FileType.File ? stat.mtime : null
+    } catch {
+      return null
+    }
+  }
+}
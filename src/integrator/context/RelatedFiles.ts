@@ -0,0 +1,226 @@
+import * as vscode from 'vscode'
+import { RelatedFileData, RelatedFileSource } from '@interfaces/index'
+import { ImportResolver, TokenEstimator } from '@integrator/context/index'
+import { recentFileLimit } from '@constants/index'
+
+/**
+ * Related file candidate before its content is loaded.
+ * @description Holds the ranking information of a file considered for the prompt
+ */
+type RelatedCandidate = {
+  /** URI of the related file */
+  uri: vscode.Uri
+  /** Why the file is related to the current document */
+  source: RelatedFileSource
+  /** Ranking score, higher scores are included first */
+  score: number
+}
+
+/**
+ * Collects snippets of files related to the current document.
+ * @description Ranks imported files and recently edited open tabs and fits them into a token budget.
+ * Uses Singleton pattern so edits are tracked once for all requests.
+ */
+export default class RelatedFiles implements vscode.Disposable {
+  /** Singleton instance of the related files collector */
+  private static instance: RelatedFiles | undefined
+  /** Minimum tokens left in the budget for a truncated snippet to be worth including */
+  private static readonly MIN_SNIPPET_TOKENS: number = 128
+  /** Marker appended to truncated snippets */
+  private static readonly TRUNCATION_MARKER: string = '...'
+  /** Recently edited file URIs, most recent last */
+  private readonly recentUris: string[] = []
+  /** Listener recording edited documents */
+  private readonly changeListener: vscode.Disposable
+
+  /**
+   * Private constructor to prevent direct instantiation.
+   * @description Watches document changes to remember recently edited files
+   */
+  private constructor() {
+    this.changeListener = vscode.workspace.onDidChangeTextDocument(
+      (event: vscode.TextDocumentChangeEvent) => {
+        if (event.contentChanges.length > 0 && event.document.uri.scheme === 'file') {
+          this.recordEdit(event.document.uri.toString())
+        }
+      }
+    )
+  }
+
+  /**
+   * Gets the singleton instance of RelatedFiles.
+   * @description Creates a new instance if none exists, otherwise returns the existing instance
+   * @returns The singleton RelatedFiles instance
+   */
+  public static getInstance(): RelatedFiles {
+    RelatedFiles.instance ??= new RelatedFiles()
+    return RelatedFiles.instance
+  }
+
+  /**
+   * Collects ranked snippets of related files within a token budget.
+   * @description Imported files rank above recent tabs, files that are both get a boost.
+   * Snippets that exceed the remaining budget are truncated or skipped.
+   * @param document - The current text document
+   * @param tokenBudget - Maximum number of tokens for all snippets
+   * @returns Promise resolving to related file snippets ordered by rank
+   */
+  public async collect(
+    document: vscode.TextDocument,
+    tokenBudget: number
+  ): Promise<RelatedFileData[]> {
+    const candidates: RelatedCandidate[] = await this.getCandidates(document)
+    const relatedFiles: RelatedFileData[] = []
+    let remainingTokens: number = tokenBudget
+    for (const candidate of candidates) {
+      if (remainingTokens < RelatedFiles.MIN_SNIPPET_TOKENS) {
+        break
+      }
+      const content: string | null = await this.readContent(candidate.uri)
+      if (content === null || content.trim() === '') {
+        continue
+      }
+      const snippet: string = this.fitContent(content, remainingTokens)
+      if (snippet === '') {
+        continue
+      }
+      remainingTokens -= TokenEstimator.estimate(snippet)
+      relatedFiles.push({
+        filePath: vscode.workspace.asRelativePath(candidate.uri),
+        fileLanguageId: this.getLanguageId(candidate.uri),
+        fileContent: snippet,
+        source: candidate.source,
+        score: candidate.score
+      })
+    }
+    return relatedFiles
+  }
+
+  /**
+   * Disposes of the collector.
+   * @description Removes the document listener and resets the singleton instance
+   */
+  public dispose(): void {
+    this.changeListener.dispose()
+    RelatedFiles.instance = undefined
+  }
+
+  /**
+   * Ranks imported files and recently edited open tabs.
+   * @param document - The current text document
+   * @returns Promise resolving to candidates ordered by descending score
+   */
+  private async getCandidates(document: vscode.TextDocument): Promise<RelatedCandidate[]> {
+    const candidates: Map<string, RelatedCandidate> = new Map()
+    const importUris: vscode.Uri[] = await ImportResolver.resolve(document)
+    importUris.forEach((uri: vscode.Uri, index: number) => {
+      /** Earlier imports score higher, from 1 down to 0.5 */
+      const score: number = 1 - index / (importUris.length * 2)
+      candidates.set(uri.toString(), { uri, source: 'import', score })
+    })
+    const recentUris: vscode.Uri[] = this.getRecentTabs(document)
+    recentUris.forEach((uri: vscode.Uri, index: number) => {
+      /** More recent edits score higher, from 0.5 down to 0 */
+      const score: number = 0.5 * (1 - index / recentUris.length)
+      const existing: RelatedCandidate | undefined = candidates.get(uri.toString())
+      if (existing) {
+        existing.score += score
+      } else {
+        candidates.set(uri.toString(), { uri, source: 'recent', score })
+      }
+    })
+    return [...candidates.values()].sort(
+      (left: RelatedCandidate, right: RelatedCandidate) => right.score - left.score
+    )
+  }
+
+  /**
+   * Gets recently edited files that are still open in a tab.
+   * @param document - The current text document, excluded from the result
+   * @returns URIs of recently edited open tabs, most recent first
+   */
+  private getRecentTabs(document: vscode.TextDocument): vscode.Uri[] {
+    const openUris: Set<string> = new Set()
+    vscode.window.tabGroups.all.forEach((group: vscode.TabGroup) => {
+      group.tabs.forEach((tab: vscode.Tab) => {
+        if (tab.input instanceof vscode.TabInputText) {
+          openUris.add(tab.input.uri.toString())
+        }
+      })
+    })
+    const currentUri: string = document.uri.toString()
+    return this.recentUris
+      .filter((uri: string) => uri !== currentUri && openUris.has(uri))
+      .reverse()
+      .map((uri: string) => vscode.Uri.parse(uri))
+  }
+
+  /**
+   * Records an edited file as the most recent one.
+   * @param fileUri - URI of the edited file
+   */
+  private recordEdit(fileUri: string): void {
+    const index: number = this.recentUris.indexOf(fileUri)
+    if (index !== -1) {
+      this.recentUris.splice(index, 1)
+    }
+    this.recentUris.push(fileUri)
+    if (this.recentUris.length > recentFileLimit) {
+      this.recentUris.shift()
+    }
+  }
+
+  /**
+   * Reads the content of a related file.
+   * @description Prefers the open document so unsaved changes are included
+   * @param fileUri - URI of the file
+   * @returns Promise resolving to the file content or null if it cannot be read
+   */
+  private async readContent(fileUri: vscode.Uri): Promise<string | null> {
+    const openDocument: vscode.TextDocument | undefined = vscode.workspace.textDocuments.find(
+      (textDocument: vscode.TextDocument) => textDocument.uri.toString() === fileUri.toString()
+    )
+    if (openDocument) {
+      return openDocument.getText()
+    }
+    try {
+      const content: Uint8Array = await vscode.workspace.fs.readFile(fileUri)
+      return new TextDecoder().decode(content)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Fits file content into the remaining token budget.
+   * @description Keeps whole leading lines and appends a truncation marker when content is cut
+   * @param content - The file content
+   * @param remainingTokens - Tokens left in the budget
+   * @returns The fitted snippet or an empty string if nothing fits
+   */
+  private fitContent(content: string, remainingTokens: number): string {
+    if (TokenEstimator.estimate(content) <= remainingTokens) {
+      return content
+    }
+    const maxLength: number = TokenEstimator.getMaxChars(
+      remainingTokens - TokenEstimator.estimate(RelatedFiles.TRUNCATION_MARKER)
+    )
+    const lastLineBreak: number = content.lastIndexOf('\n', maxLength)
+    if (lastLineBreak <= 0) {
+      return ''
+    }
+    return `${content.slice(0, lastLineBreak)}\n${RelatedFiles.TRUNCATION_MARKER}`
+  }
+
+  /**
+   * Gets the language identifier used for the snippet code block.
+   * @param fileUri - URI of the file
+   * @returns Language of the open document or the file extension
+   */
+  private getLanguageId(fileUri: vscode.Uri): string {
+    const openDocument: vscode.TextDocument | undefined = vscode.workspace.textDocuments.find(
+      (textDocument: vscode.TextDocument) => textDocument.uri.toString() === fileUri.toString()
+    )
+    return openDocument?.languageId ?? fileUri.path.split('.').pop() ?? ''
+  }
+}
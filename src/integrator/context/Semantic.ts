@@ -1,12 +1,29 @@
 import * as vscode from 'vscode'
 import { SemanticSegment } from '@interfaces/index'
 
+/**
+ * Symbol categories listed in the prompt summary.
+ * @description Maps summary headings to the semantic token types they include
+ */
+const summaryCategories: Array<{ title: string; tokenTypes: string[] }> = [
+  { title: 'Classes', tokenTypes: ['class', 'struct'] },
+  { title: 'Types', tokenTypes: ['interface', 'enum', 'type', 'typeParameter'] },
+  { title: 'Functions', tokenTypes: ['function', 'method'] },
+  { title: 'Parameters', tokenTypes: ['parameter'] },
+  { title: 'Readonly Variables', tokenTypes: ['variable', 'property'] }
+]
+
 /**
  * Provides utilities for retrieving semantic tokens from documents.
  * Semantic tokens contain information about the syntax highlighting and
  * semantic meaning of code elements in a document.
  */
 export default class SemanticToken {
+  /** Number of lines above and below the cursor scanned for symbols */
+  private static readonly SUMMARY_LINE_RADIUS: number = 200
+  /** Maximum number of symbols listed per category */
+  private static readonly SUMMARY_CATEGORY_LIMIT: number = 30
+
   /**
    * Retrieves semantic tokens for the entire document.
    * @description Gets semantic highlighting information for the complete document
@@ -40,6 +57,79 @@ export default class SemanticToken {
     )
   }
 
+  /**
+   * Retrieves the semantic tokens legend of the document's provider.
+   * @description Token type and modifier indices are only meaningful with the provider's legend
+   * @param document - The text document to get the legend for
+   * @param isRange - Whether the legend of the range provider or the full document provider is requested
+   * @returns Promise that resolves to the legend or undefined if no provider is registered
+   */
+  public static async getLegend(
+    document: vscode.TextDocument,
+    isRange: boolean
+  ): Promise<vscode.SemanticTokensLegend | undefined> {
+    return vscode.commands.executeCommand<vscode.SemanticTokensLegend | undefined>(
+      isRange
+        ? 'vscode.provideDocumentRangeSemanticTokensLegend'
+        : 'vscode.provideDocumentSemanticTokensLegend',
+      document.uri
+    )
+  }
+
+  /**
+   * Builds a compact summary of the symbols declared around the cursor.
+   * @description Lists declared classes, types, functions, parameters and readonly variables
+   * from the semantic tokens of the language server. Parameters and variables are limited to
+   * declarations above the cursor. Falls back to full document tokens when no range provider exists.
+   * @param document - The text document to summarize
+   * @param position - The cursor position
+   * @returns Promise that resolves to the formatted summary or an empty string if no tokens are available
+   */
+  public static async getSymbolSummary(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<string> {
+    const startLine: number = Math.max(0, position.line - this.SUMMARY_LINE_RADIUS)
+    const endLine: number = Math.min(
+      document.lineCount - 1,
+      position.line + this.SUMMARY_LINE_RADIUS
+    )
+    const range: vscode.Range = new vscode.Range(
+      startLine,
+      0,
+      endLine,
+      document.lineAt(endLine).text.length
+    )
+    const rangeLegend: vscode.SemanticTokensLegend | undefined = await this.getLegend(
+      document,
+      true
+    )
+    let segments: Array<SemanticSegment> = []
+    if (rangeLegend) {
+      const tokens: vscode.SemanticTokens | undefined = await vscode.commands.executeCommand<
+        vscode.SemanticTokens | undefined
+      >('vscode.provideDocumentRangeSemanticTokens', document.uri, range)
+      segments = tokens ? this.decodeTokens(tokens, document, rangeLegend) : []
+    } else {
+      const fullLegend: vscode.SemanticTokensLegend | undefined = await this.getLegend(
+        document,
+        false
+      )
+      const tokens: vscode.SemanticTokens | undefined = fullLegend
+        ? await vscode.commands.executeCommand<vscode.SemanticTokens | undefined>(
+            'vscode.provideDocumentSemanticTokens',
+            document.uri
+          )
+        : undefined
+      segments = tokens ? this.decodeTokens(tokens, document, fullLegend) : []
+    }
+    const declarations: Array<SemanticSegment> = segments.filter(
+      (token: SemanticSegment) =>
+        range.contains(token.range) && this.isSummaryDeclaration(token, position)
+    )
+    return this.formatSummary(declarations)
+  }
+
   /**
    * Formats semantic tokens into a readable string representation.
    * @description Converts semantic token data into a human-readable format
@@ -63,11 +153,13 @@ export default class SemanticToken {
    * @description Converts raw semantic token data into structured objects with text and position information
    * @param tokens - The semantic tokens to decode
    * @param document - The document containing the tokens
+   * @param legend - Optional legend of the token provider, defaults to the standard token types
    * @returns Array of decoded token objects
    */
   public static decodeTokens(
     tokens: vscode.SemanticTokens,
-    document: vscode.TextDocument
+    document: vscode.TextDocument,
+    legend?: vscode.SemanticTokensLegend
   ): Array<SemanticSegment> {
     const { data }: { data: Uint32Array } = tokens
     const result: Array<SemanticSegment> = []
@@ -91,8 +183,8 @@ export default class SemanticToken {
       const text: string = document.getText(range)
       result.push({
         text,
-        tokenType: this.getTokenTypeName(tokenType),
-        tokenModifiers: this.getTokenModifiers(tokenModifiers),
+        tokenType: this.getTokenTypeName(tokenType, legend),
+        tokenModifiers: this.getTokenModifiers(tokenModifiers, legend),
         range
       })
     }
@@ -103,10 +195,11 @@ export default class SemanticToken {
    * Converts token type index to readable name.
    * @description Maps numeric token type indices to their corresponding string names
    * @param tokenType - Numeric index of the token type
+   * @param legend - Optional legend of the token provider
    * @returns String name of the token type
    */
-  private static getTokenTypeName(tokenType: number): string {
-    const tokenTypes: string[] = [
+  private static getTokenTypeName(tokenType: number, legend?: vscode.SemanticTokensLegend): string {
+    const tokenTypes: string[] = legend?.tokenTypes ?? [
       'namespace',
       'class',
       'interface',
@@ -138,10 +231,14 @@ export default class SemanticToken {
    * Converts token modifiers bitmask to array of modifier names.
    * @description Converts a bitmask value into an array of modifier names
    * @param tokenModifiers - Bitmask representing active modifiers
+   * @param legend - Optional legend of the token provider
    * @returns Array of modifier names
    */
-  private static getTokenModifiers(tokenModifiers: number): string[] {
-    const modifiers: string[] = [
+  private static getTokenModifiers(
+    tokenModifiers: number,
+    legend?: vscode.SemanticTokensLegend
+  ): string[] {
+    const modifiers: string[] = legend?.tokenModifiers ?? [
       'declaration',
       'definition',
       'readonly',
@@ -161,4 +258,45 @@ export default class SemanticToken {
     }
     return result
   }
+
+  /**
+   * Checks whether a token is a declaration listed in the symbol summary.
+   * @description Variables and properties must be readonly, parameters and variables must be declared above the cursor
+   * @param token - The decoded semantic token
+   * @param position - The cursor position
+   * @returns True if the token is included in the summary
+   */
+  private static isSummaryDeclaration(token: SemanticSegment, position: vscode.Position): boolean {
+    if (!token.tokenModifiers.includes('declaration')) {
+      return false
+    }
+    if (['variable', 'property'].includes(token.tokenType)) {
+      return token.tokenModifiers.includes('readonly') && token.range.start.isBefore(position)
+    }
+    if (token.tokenType === 'parameter') {
+      return token.range.start.isBefore(position)
+    }
+    return true
+  }
+
+  /**
+   * Formats declared symbols into a compact summary grouped by category.
+   * @param declarations - Decoded declaration tokens
+   * @returns Summary with one line per non-empty category
+   */
+  private static formatSummary(declarations: Array<SemanticSegment>): string {
+    return summaryCategories
+      .map(({ title, tokenTypes }: { title: string; tokenTypes: string[] }) => {
+        const names: string[] = [
+          ...new Set(
+            declarations
+              .filter((token: SemanticSegment) => tokenTypes.includes(token.tokenType))
+              .map((token: SemanticSegment) => `${token.text} (Ln:${token.range.start.line + 1})`)
+          )
+        ].slice(0, this.SUMMARY_CATEGORY_LIMIT)
+        return names.length > 0 ? `- ${title}: ${names.join(', ')}` : ''
+      })
+      .filter((line: string) => line !== '')
+      .join('\n')
+  }
 }
@@ -0,0 +1,87 @@
+import { ConfigManager } from '@config/index'
+
+/**
+ * Approximate characters per token of a model family.
+ * @description Matched against the lowercase model name, first match wins
+ */
+type TokenRatio = {
+  /** Substring of the model name identifying the family */
+  family: string
+  /** Average number of characters per token for source code */
+  charsPerToken: number
+}
+
+/** Token ratios of common model families, more specific names first */
+const tokenRatios: TokenRatio[] = [
+  { family: 'codellama', charsPerToken: 3.2 },
+  { family: 'llama2', charsPerToken: 3.2 },
+  { family: 'starcoder', charsPerToken: 3.5 },
+  { family: 'deepseek', charsPerToken: 3.6 },
+  { family: 'codestral', charsPerToken: 3.5 },
+  { family: 'mistral', charsPerToken: 3.5 },
+  { family: 'llama', charsPerToken: 4 },
+  { family: 'qwen', charsPerToken: 4 },
+  { family: 'gemma', charsPerToken: 4 },
+  { family: 'gpt', charsPerToken: 4 }
+]
+
+/**
+ * Estimates prompt token counts without a tokenizer.
+ * @description Uses average characters per token of the model family, falling back to a conservative ratio
+ */
+export default class TokenEstimator {
+  /** Characters per token used for unknown models */
+  private static readonly DEFAULT_CHARS_PER_TOKEN: number = 3.5
+
+  /**
+   * Estimates the number of tokens of a text.
+   * @param text - The text to estimate
+   * @param model - Model name, defaults to the inline completion model
+   * @returns Approximate token count
+   */
+  public static estimate(
+    text: string,
+    model: string = ConfigManager.getCompletionModel('completion')
+  ): number {
+    return this.estimateWithRatio(text, this.getCharsPerToken(model))
+  }
+
+  /**
+   * Estimates the number of tokens of a text with a known ratio.
+   * @description Avoids resolving the model for every call when many texts are estimated at once
+   * @param text - The text to estimate
+   * @param charsPerToken - Characters per token returned by getCharsPerToken
+   * @returns Approximate token count
+   */
+  public static estimateWithRatio(text: string, charsPerToken: number): number {
+    return Math.ceil(text.length / charsPerToken)
+  }
+
+  /**
+   * Gets the maximum number of characters fitting into a token budget.
+   * @param tokens - The token budget
+   * @param model - Model name, defaults to the inline completion model
+   * @returns Approximate number of characters
+   */
+  public static getMaxChars(
+    tokens: number,
+    model: string = ConfigManager.getCompletionModel('completion')
+  ): number {
+    return Math.max(0, Math.floor(tokens * this.getCharsPerToken(model)))
+  }
+
+  /**
+   * Gets the average characters per token of a model.
+   * @param model - Model name, defaults to the inline completion model
+   * @returns Characters per token of the model family or the default ratio
+   */
+  public static getCharsPerToken(
+    model: string = ConfigManager.getCompletionModel('completion')
+  ): number {
+    const modelName: string = model.toLowerCase()
+    const tokenRatio: TokenRatio | undefined = tokenRatios.find((ratio: TokenRatio) =>
+      modelName.includes(ratio.family)
+    )
+    return tokenRatio?.charsPerToken ?? TokenEstimator.DEFAULT_CHARS_PER_TOKEN
+  }
+}
@@ -6,3 +6,7 @@
 export { default as ContextBuilder } from '@integrator/context/Builder'
 export { default as GetFileData } from '@integrator/context/FileData'
 export { default as SemanticToken } from '@integrator/context/Semantic'
+export { default as TokenEstimator } from '@integrator/context/TokenEstimator'
+export { default as ContextWindow } from '@integrator/context/ContextWindow'
+export { default as ImportResolver } from '@integrator/context/ImportResolver'
+export { default as RelatedFiles } from '@integrator/context/RelatedFiles'
@@ -0,0 +1,212 @@
+import * as vscode from 'vscode'
+
+/**
+ * Locates suggested old content in a document.
+ * @description Anchors edit and delete suggestions near a target line instead of the first occurrence,
+ * and tolerates whitespace differences between the suggestion and the document
+ */
+export default class ContentMatcher {
+  /**
+   * Finds the range of content in a document closest to a target line.
+   * @description Prefers exact matches, then falls back to line-wise matching that ignores whitespace
+   * @param document - The text document to search
+   * @param content - The content to locate
+   * @param targetLine - Zero-based line the match should be closest to
+   * @returns Range of the closest match or null if the content is not found
+   */
+  public static findRange(
+    document: vscode.TextDocument,
+    content: string,
+    targetLine: number
+  ): vscode.Range | null {
+    if (content === '') {
+      return null
+    }
+    const exactRanges: vscode.Range[] = this.findExactRanges(document, content)
+    const ranges: vscode.Range[] =
+      exactRanges.length > 0 ? exactRanges : this.findFuzzyRanges(document, content)
+    return this.getClosestRange(ranges, targetLine)
+  }
+
+  /**
+   * Gets the target line of a suggestion.
+   * @description Uses the line hint of the model when it is inside the document, otherwise the cursor line
+   * @param document - The text document of the suggestion
+   * @param selectedLineNumber - Cursor line when the suggestion was requested (1-based)
+   * @param lineHint - Optional line of the old content reported by the model (1-based)
+   * @returns Zero-based target line
+   */
+  public static getTargetLine(
+    document: vscode.TextDocument,
+    selectedLineNumber: number,
+    lineHint?: number
+  ): number {
+    if (lineHint !== undefined && lineHint >= 1 && lineHint <= document.lineCount) {
+      return lineHint - 1
+    }
+    return Math.max(0, selectedLineNumber - 1)
+  }
+
+  /**
+   * Finds the position added content is inserted at.
+   * @description Inserts on the line below the anchor closest to the target line, or at the start of the target line
+   * when there is no anchor. A position past the last line is the end of the document.
+   * @param document - The text document to insert into
+   * @param anchor - Optional existing code the content is inserted after
+   * @param targetLine - Zero-based line the content is inserted at, or the anchor should be closest to
+   * @returns The insert position or null if the anchor is not found
+   */
+  public static findInsertPosition(
+    document: vscode.TextDocument,
+    anchor: string | undefined,
+    targetLine: number
+  ): vscode.Position | null {
+    if (anchor === undefined || anchor.trim() === '') {
+      return this.getLineStart(document, targetLine)
+    }
+    const anchorRange: vscode.Range | null = this.findRange(document, anchor, targetLine)
+    return anchorRange ? this.getLineStart(document, anchorRange.end.line + 1) : null
+  }
+
+  /**
+   * Gets added content as whole lines for an insert position.
+   * @description Content inserted at a line start ends with a line break, content appended
+   * to the last line starts with one
+   * @param position - The insert position returned by findInsertPosition
+   * @param content - The added content
+   * @returns The text to insert
+   */
+  public static getInsertText(position: vscode.Position, content: string): string {
+    const lines: string = content.endsWith('\n') ? content.slice(0, -1) : content
+    return position.character > 0 ? `\n${lines}` : `${lines}\n`
+  }
+
+  /**
+   * Finds all exact occurrences of content.
+   * @param document - The text document to search
+   * @param content - The content to locate
+   * @returns Ranges of all exact occurrences
+   */
+  private static findExactRanges(document: vscode.TextDocument, content: string): vscode.Range[] {
+    const fullDocument: string = document.getText()
+    const ranges: vscode.Range[] = []
+    let startIndex: number = fullDocument.indexOf(content)
+    while (startIndex !== -1) {
+      ranges.push(
+        new vscode.Range(
+          document.positionAt(startIndex),
+          document.positionAt(startIndex + content.length)
+        )
+      )
+      startIndex = fullDocument.indexOf(content, startIndex + 1)
+    }
+    return ranges
+  }
+
+  /**
+   * Finds occurrences of content ignoring whitespace differences.
+   * @description Compares non-empty lines with collapsed whitespace, blank lines in the document are skipped
+   * @param document - The text document to search
+   * @param content - The content to locate
+   * @returns Ranges covering the matched lines
+   */
+  private static findFuzzyRanges(document: vscode.TextDocument, content: string): vscode.Range[] {
+    const contentLines: string[] = content
+      .split('\n')
+      .map((line: string) => this.normalize(line))
+      .filter((line: string) => line !== '')
+    if (contentLines.length === 0) {
+      return []
+    }
+    const ranges: vscode.Range[] = []
+    for (let line: number = 0; line < document.lineCount; line++) {
+      const endLine: number | null = this.matchLines(document, line, contentLines)
+      if (endLine !== null) {
+        const startLine: vscode.TextLine = document.lineAt(line)
+        ranges.push(
+          new vscode.Range(
+            line,
+            startLine.firstNonWhitespaceCharacterIndex,
+            endLine,
+            document.lineAt(endLine).text.length
+          )
+        )
+      }
+    }
+    return ranges
+  }
+
+  /**
+   * Matches normalized content lines starting at a document line.
+   * @description Every content line has to match a whole document line, so the matched range never replaces
+   * more than the matched code. Partial lines are only matched exactly.
+   * @param document - The text document to search
+   * @param startLine - Zero-based document line to start matching at
+   * @param contentLines - Normalized non-empty content lines
+   * @returns Zero-based last matched document line or null if the lines do not match
+   */
+  private static matchLines(
+    document: vscode.TextDocument,
+    startLine: number,
+    contentLines: string[]
+  ): number | null {
+    if (this.normalize(document.lineAt(startLine).text) !== contentLines[0]) {
+      return null
+    }
+    let line: number = startLine
+    for (const contentLine of contentLines.slice(1)) {
+      line += 1
+      while (line < document.lineCount && document.lineAt(line).isEmptyOrWhitespace) {
+        line += 1
+      }
+      if (
+        line >= document.lineCount ||
+        this.normalize(document.lineAt(line).text) !== contentLine
+      ) {
+        return null
+      }
+    }
+    return line
+  }
+
+  /**
+   * Picks the range starting closest to the target line.
+   * @param ranges - Candidate ranges
+   * @param targetLine - Zero-based target line
+   * @returns The closest range or null if there are no candidates
+   */
+  private static getClosestRange(ranges: vscode.Range[], targetLine: number): vscode.Range | null {
+    let closestRange: vscode.Range | null = null
+    let closestDistance: number = Number.POSITIVE_INFINITY
+    for (const range of ranges) {
+      const distance: number = Math.abs(range.start.line - targetLine)
+      if (distance < closestDistance) {
+        closestRange = range
+        closestDistance = distance
+      }
+    }
+    return closestRange
+  }
+
+  /**
+   * Gets the start of a line.
+   * @param document - The text document
+   * @param line - Zero-based line
+   * @returns Start of the line, or the end of the document if the line is past the last line
+   */
+  private static getLineStart(document: vscode.TextDocument, line: number): vscode.Position {
+    if (line >= document.lineCount) {
+      return document.lineAt(document.lineCount - 1).range.end
+    }
+    return new vscode.Position(Math.max(0, line), 0)
+  }
+
+  /**
+   * Normalizes a line for whitespace-tolerant comparison.
+   * @param line - The line to normalize
+   * @returns Trimmed line with collapsed whitespace
+   */
+  private static normalize(line: string): string {
+    return line.trim().replace(/\s+/g, ' ')
+  }
+}
@@ -1,8 +1,10 @@
-import { FileTrackerData } from '@interfaces/index'
+import * as vscode from 'vscode'
+import { EventType, FileTrackerData } from '@interfaces/index'
+import { HistoryRecorder } from '@integrator/index'
 
 /**
  * File tracker utility for tracking file changes.
- * @description Provides methods to set and get file tracker data.
+ * @description Provides methods to set and get file tracker data, resolved entries are kept as history.
  * Uses Singleton pattern to prevent duplicate file tracker instances.
  */
 export default class FileTracker {
@@ -12,6 +14,8 @@ export default class FileTracker {
   private readonly fileTrackers: Map<string, FileTrackerData[]> = new Map()
   /** Maximum entries per file to prevent memory overflow */
   private readonly MAX_ENTRIES_PER_FILE: number = 20
+  /** Emitter fired whenever the file tracker data changes */
+  private readonly changeEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter()
 
   /**
    * Private constructor to prevent direct instantiation.
@@ -31,6 +35,25 @@ export default class FileTracker {
     return FileTracker.instance
   }
 
+  /**
+   * Event fired when file tracker data is added, updated or removed.
+   * @returns Event without payload
+   */
+  public get onDidChange(): vscode.Event<void> {
+    return this.changeEmitter.event
+  }
+
+  /**
+   * Checks whether a suggestion is shown as ghost text.
+   * @description Only 'add' suggestions without additional hunks are inserted at the cursor,
+   * all others are previewed with code lenses
+   * @param fileTracker - The file tracker data of the suggestion
+   * @returns True if the suggestion is an inline 'add' suggestion
+   */
+  public static isInline(fileTracker: FileTrackerData): boolean {
+    return fileTracker.type === 'add' && (fileTracker.operations?.length ?? 0) === 0
+  }
+
   /**
    * Gets the total count of stored file tracker data.
    * @description Counts all file tracker entries across all files
@@ -68,7 +91,8 @@ export default class FileTracker {
   /**
    * Sets the file tracker data for a specific file URI.
    * @param fileTracker - The file tracker data to set
-   * @description Stores file tracker data and automatically limits to MAX_ENTRIES_PER_FILE per file
+   * @description Stores file tracker data and automatically limits to MAX_ENTRIES_PER_FILE per file,
+   * pending suggestions are recorded in the completion history
    */
   public set(fileTracker: FileTrackerData): void {
     const { fileUri }: { fileUri: string } = fileTracker
@@ -81,6 +105,51 @@ export default class FileTracker {
       fileEntries = fileEntries.slice(-this.MAX_ENTRIES_PER_FILE)
     }
     this.fileTrackers.set(fileUri, fileEntries)
+    this.changeEmitter.fire()
+    if (fileTracker.fileState === 'pending') {
+      HistoryRecorder.getInstance().record(fileTracker)
+    }
+  }
+
+  /**
+   * Updates the latest file tracker data for its file URI.
+   * @param fileTracker - The file tracker data replacing the latest entry
+   * @description Replaces the latest entry of the file, or stores the data if the file has no entries
+   */
+  public update(fileTracker: FileTrackerData): void {
+    const fileEntries: FileTrackerData[] | undefined = this.fileTrackers.get(fileTracker.fileUri)
+    if (fileEntries === undefined || fileEntries.length === 0) {
+      this.set(fileTracker)
+      return
+    }
+    fileEntries[fileEntries.length - 1] = fileTracker
+    this.changeEmitter.fire()
+  }
+
+  /**
+   * Resolves the pending file tracker data of a file.
+   * @param fileUri - The file URI of the pending data
+   * @param fileState - The state the pending data is resolved with
+   * @description Marks the latest entry as accepted or dismissed, keeps it and records the outcome in the completion history
+   */
+  public resolve(fileUri: string, fileState: EventType): void {
+    const latest: FileTrackerData | undefined = this.fileTrackers.get(fileUri)?.at(-1)
+    if (latest?.fileState === 'pending') {
+      latest.fileState = fileState
+      HistoryRecorder.getInstance().record(latest)
+      this.changeEmitter.fire()
+    }
+  }
+
+  /**
+   * Changes the state of resolved file tracker data.
+   * @param fileTracker - The stored file tracker data
+   * @param fileState - The new state of the data
+   * @description Used when a past suggestion is applied again or reverted, the completion history is not changed
+   */
+  public mark(fileTracker: FileTrackerData, fileState: EventType): void {
+    fileTracker.fileState = fileState
+    this.changeEmitter.fire()
   }
 
   /**
@@ -89,6 +158,7 @@ export default class FileTracker {
    */
   public clear(): void {
     this.fileTrackers.clear()
+    this.changeEmitter.fire()
   }
 
   /**
@@ -97,7 +167,9 @@ export default class FileTracker {
    * @description Removes all file tracker entries for the specified file
    */
   public clearFile(fileUri: string): void {
-    this.fileTrackers.delete(fileUri)
+    if (this.fileTrackers.delete(fileUri)) {
+      this.changeEmitter.fire()
+    }
   }
 
   /**
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode'
+import * as fs from 'fs'
+import { FileTrackerData, HistoryStatsData } from '@interfaces/index'
+import { ConfigManager, KnexManager } from '@config/index'
+import { LogHandler, Validator } from '@utils/index'
+
+/**
+ * Completion history recorder.
+ * @description Stores suggestion lifecycle events in the local SQLite database once the database file exists,
+ * the file is never created by recording. Uses Singleton pattern to share one database connection.
+ */
+export default class HistoryRecorder implements vscode.Disposable {
+  /** Singleton instance of the history recorder */
+  private static instance: HistoryRecorder | undefined
+  /** Database connection of the configured database path */
+  private knexManager: KnexManager | null = null
+  /** Database path the connection was opened with */
+  private databasePath: string = ''
+
+  /**
+   * Private constructor to prevent direct instantiation.
+   * @description Enforces singleton pattern by making constructor private
+   */
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Gets the singleton instance of HistoryRecorder.
+   * @description Creates a new instance if none exists, otherwise returns the existing instance
+   * @returns The singleton HistoryRecorder instance
+   */
+  public static getInstance(): HistoryRecorder {
+    HistoryRecorder.instance ??= new HistoryRecorder()
+    return HistoryRecorder.instance
+  }
+
+  /**
+   * Records the current state of a suggestion.
+   * @description Stores the event without waiting for the database, nothing is stored without an existing database
+   * @param fileTracker - The file tracker data of the suggestion
+   */
+  public record(fileTracker: FileTrackerData): void {
+    const knexManager: KnexManager | null = this.getKnexManager()
+    if (!knexManager) {
+      return
+    }
+    void knexManager.insertHistory({
+      model: fileTracker.model,
+      language: fileTracker.fileLang,
+      operation_type: fileTracker.type,
+      title: fileTracker.resTitle,
+      outcome: fileTracker.fileState,
+      latency_ms: fileTracker.latency ?? 0,
+      created_at: Date.now()
+    })
+  }
+
+  /**
+   * Gets the suggestion outcomes per model and language.
+   * @returns Promise resolving to the statistics or null if the configured database does not exist
+   */
+  public async getStats(): Promise<HistoryStatsData[] | null> {
+    const knexManager: KnexManager | null = this.getKnexManager()
+    if (!knexManager) {
+      return null
+    }
+    return knexManager.getHistoryStats()
+  }
+
+  /**
+   * Closes the database connection.
+   * @description Called when the extension is deactivated
+   */
+  public dispose(): void {
+    this.closeConnection()
+  }
+
+  /**
+   * Gets the database connection of the configured database path.
+   * @description Reopens the connection when the database path changes. Opening a connection creates a missing
+   * SQLite file, so no connection is opened until the database was created by the user.
+   * @returns The database connection or null if the database path is invalid or the database does not exist
+   */
+  private getKnexManager(): KnexManager | null {
+    const databasePath: string = ConfigManager.getDatabasePath()
+    const isCreated: boolean = fs.existsSync(databasePath)
+    if (this.knexManager && databasePath === this.databasePath && isCreated) {
+      return this.knexManager
+    }
+    this.closeConnection()
+    if (!isCreated || !Validator.isValidPath(databasePath)) {
+      return null
+    }
+    this.knexManager = KnexManager.getInstance(databasePath)
+    this.databasePath = databasePath
+    return this.knexManager
+  }
+
+  /**
+   * Closes the current database connection if one is open.
+   */
+  private closeConnection(): void {
+    this.knexManager?.destroy().catch((error: unknown) => {
+      LogHandler.handle(error, 'HistoryRecorder', false, 'error')
+    })
+    this.knexManager = null
+    this.databasePath = ''
+  }
+}
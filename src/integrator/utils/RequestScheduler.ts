@@ -0,0 +1,147 @@
+import * as vscode from 'vscode'
+
+/**
+ * Request scheduler for inline completion requests.
+ * @description Debounces keystrokes, aborts stale requests and detects outdated results.
+ * Uses Singleton pattern so only one completion request is in flight at a time.
+ */
+export default class RequestScheduler implements vscode.Disposable {
+  /** Singleton instance of the request scheduler */
+  private static instance: RequestScheduler | undefined
+  /** Controller of the in-flight request or null if no request is pending */
+  private controller: AbortController | null = null
+  /** URI of the document the in-flight request belongs to */
+  private fileUri: string | null = null
+  /** Listener aborting the in-flight request when its cancellation token fires */
+  private cancelListener: vscode.Disposable | null = null
+  /** Listener aborting the in-flight request when its document changes */
+  private readonly changeListener: vscode.Disposable
+
+  /**
+   * Private constructor to prevent direct instantiation.
+   * @description Watches document changes to abort requests made for an outdated document version
+   */
+  private constructor() {
+    this.changeListener = vscode.workspace.onDidChangeTextDocument(
+      (event: vscode.TextDocumentChangeEvent) => {
+        if (event.contentChanges.length > 0 && event.document.uri.toString() === this.fileUri) {
+          this.cancel()
+        }
+      }
+    )
+  }
+
+  /**
+   * Gets the singleton instance of RequestScheduler.
+   * @description Creates a new instance if none exists, otherwise returns the existing instance
+   * @returns The singleton RequestScheduler instance
+   */
+  public static getInstance(): RequestScheduler {
+    RequestScheduler.instance ??= new RequestScheduler()
+    return RequestScheduler.instance
+  }
+
+  /**
+   * Waits for the debounce delay before a request is started.
+   * @description Resolves early when the token is cancelled because the user kept typing
+   * @param delay - Debounce delay in milliseconds
+   * @param token - Cancellation token of the completion request
+   * @returns Promise resolving to true if the request should proceed, false if it was cancelled
+   */
+  public async debounce(delay: number, token: vscode.CancellationToken): Promise<boolean> {
+    if (delay > 0 && !token.isCancellationRequested) {
+      await new Promise<void>((resolve: () => void) => {
+        const listener: vscode.Disposable = token.onCancellationRequested(() => {
+          clearTimeout(timer)
+          listener.dispose()
+          resolve()
+        })
+        const timer: ReturnType<typeof setTimeout> = setTimeout(() => {
+          listener.dispose()
+          resolve()
+        }, delay)
+      })
+    }
+    return !token.isCancellationRequested
+  }
+
+  /**
+   * Starts tracking a new request and aborts the previous one.
+   * @description Creates an abort controller bound to the document and optionally to the cancellation token
+   * @param document - The text document the request is made for
+   * @param token - Cancellation token of the completion request
+   * @param abortOnCancel - Whether the request is aborted when the token fires
+   * @returns Abort controller of the new request
+   */
+  public begin(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken,
+    abortOnCancel: boolean
+  ): AbortController {
+    this.cancel()
+    const controller: AbortController = new AbortController()
+    this.controller = controller
+    this.fileUri = document.uri.toString()
+    if (abortOnCancel) {
+      this.cancelListener = token.onCancellationRequested(() => {
+        if (this.controller === controller) {
+          this.cancel()
+        }
+      })
+    }
+    return controller
+  }
+
+  /**
+   * Stops tracking a finished request.
+   * @description Releases the request state if the controller still belongs to the in-flight request
+   * @param controller - Abort controller of the finished request
+   */
+  public end(controller: AbortController): void {
+    if (this.controller === controller) {
+      this.reset()
+    }
+  }
+
+  /**
+   * Checks whether a result is outdated.
+   * @description Compares the current document version with the version the request was made for
+   * @param document - The text document the request was made for
+   * @param version - Document version when the request was started
+   * @returns True if the document changed since the request was started
+   */
+  public isStale(document: vscode.TextDocument, version: number): boolean {
+    return document.version !== version
+  }
+
+  /**
+   * Aborts the in-flight request.
+   * @description Aborts the pending HTTP request and clears the request state
+   */
+  public cancel(): void {
+    const currentController: AbortController | null = this.controller
+    this.reset()
+    currentController?.abort()
+  }
+
+  /**
+   * Disposes of the scheduler and aborts the in-flight request.
+   * @description Removes document listeners and resets the singleton instance
+   */
+  public dispose(): void {
+    this.cancel()
+    this.changeListener.dispose()
+    RequestScheduler.instance = undefined
+  }
+
+  /**
+   * Clears the request state.
+   * @description Disposes the cancellation listener and forgets the in-flight request
+   */
+  private reset(): void {
+    this.cancelListener?.dispose()
+    this.cancelListener = null
+    this.controller = null
+    this.fileUri = null
+  }
+}
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode'
+import { ExtensionState } from '@interfaces/index'
+import { maxSnoozeMinutes } from '@constants/index'
+
+/**
+ * State manager for pausing inline completions.
+ * @description Tracks whether completions are enabled, disabled or snoozed and notifies listeners on changes.
+ * Uses Singleton pattern so all providers share the same state.
+ */
+export default class StateManager implements vscode.Disposable {
+  /** Singleton instance of the state manager */
+  private static instance: StateManager | undefined
+  /** Current extension state */
+  private state: ExtensionState = 'enabled'
+  /** Time when the snooze ends or null if not snoozed */
+  private snoozeUntil: Date | null = null
+  /** Timer restoring the enabled state after a snooze */
+  private snoozeTimer: ReturnType<typeof setTimeout> | null = null
+  /** Emitter fired whenever the state changes */
+  private readonly stateEmitter: vscode.EventEmitter<ExtensionState> = new vscode.EventEmitter()
+
+  /**
+   * Private constructor to prevent direct instantiation.
+   * @description Enforces singleton pattern by making constructor private
+   */
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Gets the singleton instance of StateManager.
+   * @description Creates a new instance if none exists, otherwise returns the existing instance
+   * @returns The singleton StateManager instance
+   */
+  public static getInstance(): StateManager {
+    StateManager.instance ??= new StateManager()
+    return StateManager.instance
+  }
+
+  /**
+   * Event fired when the extension state changes.
+   * @returns Event providing the new state
+   */
+  public get onDidChangeState(): vscode.Event<ExtensionState> {
+    return this.stateEmitter.event
+  }
+
+  /**
+   * Gets the current extension state.
+   * @returns The current state
+   */
+  public getState(): ExtensionState {
+    return this.state
+  }
+
+  /**
+   * Gets the time when the current snooze ends.
+   * @returns The snooze end time or null if not snoozed
+   */
+  public getSnoozeUntil(): Date | null {
+    return this.snoozeUntil
+  }
+
+  /**
+   * Checks whether completions are currently enabled.
+   * @returns True if completions should be provided
+   */
+  public isEnabled(): boolean {
+    return this.state === 'enabled'
+  }
+
+  /**
+   * Toggles completions on or off.
+   * @description Disables enabled completions, re-enables disabled or snoozed completions
+   * @returns The new state
+   */
+  public toggle(): ExtensionState {
+    this.setState(this.state === 'enabled' ? 'disabled' : 'enabled')
+    return this.state
+  }
+
+  /**
+   * Pauses completions for the given duration.
+   * @description Completions are enabled again automatically when the snooze ends, durations are limited to
+   * the maximum snooze duration
+   * @param minutes - Snooze duration in minutes
+   */
+  public snooze(minutes: number): void {
+    const duration: number = Math.min(Math.max(0, minutes), maxSnoozeMinutes) * 60 * 1000
+    this.clearSnooze()
+    this.state = 'snoozed'
+    this.snoozeUntil = new Date(Date.now() + duration)
+    this.snoozeTimer = setTimeout(() => {
+      this.setState('enabled')
+    }, duration)
+    this.stateEmitter.fire(this.state)
+  }
+
+  /**
+   * Disposes of the state manager.
+   * @description Clears the snooze timer and resets the singleton instance
+   */
+  public dispose(): void {
+    this.clearSnooze()
+    this.stateEmitter.dispose()
+    StateManager.instance = undefined
+  }
+
+  /**
+   * Updates the extension state.
+   * @description Clears any running snooze and notifies listeners
+   * @param state - The new state
+   */
+  private setState(state: ExtensionState): void {
+    this.clearSnooze()
+    this.state = state
+    this.stateEmitter.fire(state)
+  }
+
+  /**
+   * Clears the snooze timer and end time.
+   */
+  private clearSnooze(): void {
+    if (this.snoozeTimer) {
+      clearTimeout(this.snoozeTimer)
+    }
+    this.snoozeTimer = null
+    this.snoozeUntil = null
+  }
+}
@@ -4,4 +4,8 @@
  */
 
 export { default as CacheManager } from '@integrator/utils/CacheManager'
+export { default as ContentMatcher } from '@integrator/utils/ContentMatcher'
 export { default as FileTracker } from '@integrator/utils/FileTracker'
+export { default as HistoryRecorder } from '@integrator/utils/HistoryRecorder'
+export { default as RequestScheduler } from '@integrator/utils/RequestScheduler'
+export { default as StateManager } from '@integrator/utils/StateManager'
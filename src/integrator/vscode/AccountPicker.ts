@@ -0,0 +1,134 @@
+import * as vscode from 'vscode'
+import { AccountData } from '@interfaces/index'
+import { ConfigManager, KnexManager, SecretManager } from '@config/index'
+import { LogHandler, Validator } from '@utils/index'
+import { accountDailyWindow, accountHourlyWindow, configSection } from '@constants/index'
+
+/**
+ * Quick pick entry of an account.
+ * @description Extends the quick pick item with the account it represents
+ */
+type AccountItem = vscode.QuickPickItem & {
+  /** The account shown by the item */
+  account: AccountData
+}
+
+/**
+ * Shared helpers of the account commands.
+ * @description Opens the configured account database and lists accounts with masked API keys
+ */
+export default class AccountPicker {
+  /** Number of API key characters kept visible at each end */
+  private static readonly VISIBLE_KEY_CHARS: number = 4
+
+  /**
+   * Opens the account database of the configured database path.
+   * @description Warns when the database path is invalid, the caller releases it with destroy
+   * @returns The account database or null if the database path is invalid
+   */
+  public static openDatabase(): KnexManager | null {
+    const databasePath: string = ConfigManager.getDatabasePath()
+    if (!Validator.isValidPath(databasePath)) {
+      LogHandler.showNotification(
+        `${configSection}: Select a valid database path before managing accounts`,
+        'warning',
+        true
+      )
+      return null
+    }
+    return KnexManager.getInstance(databasePath)
+  }
+
+  /**
+   * Shows the accounts of the database and lets the user pick one.
+   * @param knexManager - The account database
+   * @param placeHolder - Text shown in the quick pick input
+   * @returns Promise resolving to the picked account or undefined if there are none or the pick is cancelled
+   */
+  public static async pick(
+    knexManager: KnexManager,
+    placeHolder: string
+  ): Promise<AccountData | undefined> {
+    const accounts: AccountData[] = await knexManager.getAccounts()
+    if (accounts.length === 0) {
+      LogHandler.showNotification(`${configSection}: No accounts added yet`, 'info')
+      return undefined
+    }
+    const accountItems: AccountItem[] = await Promise.all(
+      accounts.map(async (account: AccountData) => this.getItem(account))
+    )
+    const selectedItem: AccountItem | undefined = await vscode.window.showQuickPick(accountItems, {
+      placeHolder,
+      canPickMany: false,
+      matchOnDescription: true
+    })
+    return selectedItem?.account
+  }
+
+  /**
+   * Masks an API key for display.
+   * @param apiKey - The API key to mask
+   * @returns The first and last characters of the key, short keys are masked completely
+   */
+  public static maskApiKey(apiKey: string): string {
+    if (apiKey.length <= this.VISIBLE_KEY_CHARS * 2) {
+      return '••••'
+    }
+    return `${apiKey.slice(0, this.VISIBLE_KEY_CHARS)}••••${apiKey.slice(-this.VISIBLE_KEY_CHARS)}`
+  }
+
+  /**
+   * Creates the quick pick item of an account.
+   * @description The API key is read from secret storage and only shown masked
+   * @param account - The account to show
+   * @returns Promise resolving to an item with the email, masked key, state and usage of the account
+   */
+  private static async getItem(account: AccountData): Promise<AccountItem> {
+    const apiKey: string | null = await SecretManager.getInstance().getApiKey(account)
+    const hourlyLimit: string = account.limit_hourly === null ? '∞' : `${account.limit_hourly}`
+    const dailyLimit: string = account.limit_daily === null ? '∞' : `${account.limit_daily}`
+    const hourlyUsage: number = this.getUsage(
+      account.usage_hourly,
+      account.window_hourly,
+      accountHourlyWindow
+    )
+    const dailyUsage: number = this.getUsage(
+      account.usage_daily,
+      account.window_daily,
+      accountDailyWindow
+    )
+    return {
+      label: `${account.disabled ? '$(circle-slash)' : '$(account)'} ${account.email}`,
+      description: apiKey !== null ? this.maskApiKey(apiKey) : 'No API key',
+      detail: `${this.getState(account)} · ${hourlyUsage}/${hourlyLimit} this hour · ${dailyUsage}/${dailyLimit} today`,
+      account
+    }
+  }
+
+  /**
+   * Gets the usage of an account in the current window.
+   * @param usage - The stored request count
+   * @param windowStart - Start of the window the count belongs to
+   * @param windowLength - Length of the window in milliseconds
+   * @returns The stored count, or 0 if its window has rolled over
+   */
+  private static getUsage(usage: number, windowStart: number | null, windowLength: number): number {
+    const currentWindow: number = Math.floor(Date.now() / windowLength) * windowLength
+    return windowStart === currentWindow ? usage : 0
+  }
+
+  /**
+   * Gets the state of an account.
+   * @param account - The account
+   * @returns Disabled, rate limited with the end of the limit, or active
+   */
+  private static getState(account: AccountData): string {
+    if (account.disabled) {
+      return 'Disabled'
+    }
+    if (account.limited_until !== null && account.limited_until > Date.now()) {
+      return `Rate limited until ${new Date(account.limited_until).toLocaleTimeString()}`
+    }
+    return 'Active'
+  }
+}
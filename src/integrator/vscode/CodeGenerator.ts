@@ -1,64 +1,227 @@
 import { z } from 'zod'
 import * as vscode from 'vscode'
-import { GenerationResult, CompletionType } from '@interfaces/index'
+import {
+  GenerationResult,
+  CompletionResult,
+  CompletionType,
+  InfillContextData,
+  ModelService,
+  RequestOptions
+} from '@interfaces/index'
+import { ConfigManager } from '@config/index'
 import { ContextBuilder } from '@integrator/index'
-import { OllamaService } from '@services/index'
 import { generationSchema, generationFormat } from '@schemas/index'
 import { LogHandler } from '@utils/index'
+import { defaultTemperature, candidateTemperatureStep } from '@constants/index'
+
+/**
+ * Escape sequences supported when decoding partial JSON strings.
+ * @description Maps JSON escape characters to their decoded values
+ */
+const jsonEscapes: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t'
+}
+
+/**
+ * Decodes a possibly unterminated JSON string value.
+ * @description Reads characters until the closing quote or the end of input, skipping incomplete escapes
+ * @param content - The raw JSON text
+ * @param start - Index of the first character after the opening quote
+ * @returns The decoded string content read so far
+ */
+function decodePartialString(content: string, start: number): string {
+  let result: string = ''
+  let index: number = start
+  while (index < content.length && content[index] !== '"') {
+    const char: string = content[index] ?? ''
+    if (char !== '\\') {
+      result += char
+      index += 1
+      continue
+    }
+    const next: string | undefined = content[index + 1]
+    if (next === 'u') {
+      const hex: string = content.slice(index + 2, index + 6)
+      if (hex.length < 4) {
+        break
+      }
+      result += String.fromCharCode(parseInt(hex, 16))
+      index += 6
+      continue
+    }
+    if (next === undefined) {
+      break
+    }
+    result += jsonEscapes[next] ?? next
+    index += 2
+  }
+  return result
+}
+
+/**
+ * Extracts the partial new content of an 'add' operation from a streamed response.
+ * @description Parses an incomplete JSON response to preview the inserted code while the model generates
+ * @param content - The accumulated streamed response content
+ * @returns The partial new content or null if the response is not an 'add' operation yet
+ */
+function getPartialContent(content: string): string | null {
+  if (!/"type"\s*:\s*"add"/.test(content)) {
+    return null
+  }
+  const match: RegExpExecArray | null = /"newContent"\s*:\s*"/.exec(content)
+  if (!match) {
+    return null
+  }
+  return decodePartialString(content, match.index + match[0].length)
+}
+
+/**
+ * Wraps the streaming callback of request options for JSON responses.
+ * @description Forwards only the partial new content of 'add' operations to the callback
+ * @param options - Optional cancellation signal and streaming callback receiving the partial new content
+ * @returns Request options forwarding the partial new content while streaming
+ */
+function getStreamingOptions(options?: RequestOptions): RequestOptions {
+  const { onChunk }: RequestOptions = options ?? {}
+  if (!onChunk) {
+    return { ...options }
+  }
+  return {
+    ...options,
+    onChunk: (content: string): void => {
+      const partialContent: string | null = getPartialContent(content)
+      if (partialContent !== null) {
+        onChunk(partialContent)
+      }
+    }
+  }
+}
 
 /**
  * Requests code generation from the text generation service.
  * @description Sends a request to the text generation service and parses the response into a structured format
  * @param context - The context string for code generation
  * @param format - The format object for the request
- * @param ollamaService - The text generation service instance
+ * @param modelService - The text generation service instance
  * @param type - The type of completion to generate
+ * @param options - Optional cancellation signal and streaming callback
  * @returns Promise resolving to generation result or null if parsing fails
  */
-export async function requestOllama(
+export async function requestGeneration(
   context: string,
   format: object,
-  ollamaService: OllamaService,
-  type: CompletionType
+  modelService: ModelService,
+  type: CompletionType,
+  options?: RequestOptions
 ): Promise<GenerationResult | null> {
   try {
-    const response: unknown = await ollamaService.generateCompletion(context, format, type)
-    if (typeof response === 'object' && response !== null && 'message' in response) {
-      const parsed: object = JSON.parse(
-        (response as { message: { content: string } }).message.content
-      ) as object
-      const parseResponse: GenerationResult = (generationSchema as z.ZodSchema).parse(
-        parsed
-      ) as GenerationResult
-      return parseResponse
+    const startTime: number = Date.now()
+    const response: CompletionResult = await modelService.generateCompletion(
+      context,
+      format,
+      type,
+      options
+    )
+    if (response === null || response.trim() === '') {
+      return null
+    }
+    const parsed: object = JSON.parse(response) as object
+    const parseResponse: GenerationResult = (generationSchema as z.ZodSchema).parse(
+      parsed
+    ) as GenerationResult
+    return {
+      ...parseResponse,
+      latency: Date.now() - startTime,
+      model: ConfigManager.getCompletionModel(type)
     }
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'requestGeneration', false, 'error')
     return null
+  }
+}
+
+/**
+ * Generates fill-in-the-middle suggestions using text generation service.
+ * @description Sends the code around the cursor as prefix and suffix and wraps the inserted text as an 'add' operation
+ * @param document - The text document where completion is requested
+ * @param position - The cursor position in the document
+ * @param modelService - Service instance for text generation communication
+ * @param options - Optional cancellation signal and streaming callback
+ * @returns Promise resolving to generation result or null if generation fails
+ */
+export async function requestInfill(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  modelService: ModelService,
+  options?: RequestOptions
+): Promise<GenerationResult | null> {
+  try {
+    const { prefix, suffix }: InfillContextData = ContextBuilder.getInfillContext(
+      document,
+      position
+    )
+    const startTime: number = Date.now()
+    const response: CompletionResult = await modelService.generateInfill(prefix, suffix, options)
+    if (response === null) {
+      return null
+    }
+    const latency: number = Date.now() - startTime
+    const model: string = ConfigManager.getCompletionModel('completion')
+    if (response.trim() === '') {
+      return {
+        type: 'none',
+        oldContent: '',
+        newContent: '',
+        title: 'No Suggestion',
+        latency,
+        model
+      }
+    }
+    return {
+      type: 'add',
+      oldContent: '',
+      newContent: response,
+      title: 'Fill In The Middle',
+      latency,
+      model
+    }
   } catch (error: unknown) {
-    LogHandler.handle(error, 'requestOllama', false, 'error')
+    LogHandler.handle(error, 'requestInfill', false, 'error')
     return null
   }
 }
 
 /**
  * Generates code completion suggestions using text generation service.
- * @description Creates inline code completion suggestions based on document context and cursor position
+ * @description Creates inline code completion suggestions based on document context and cursor position.
+ * Uses fill-in-the-middle mode when the selected model is configured for it.
  * @param document - The text document where completion is requested
  * @param position - The cursor position in the document
- * @param ollamaService - Service instance for text generation communication
+ * @param modelService - Service instance for text generation communication
+ * @param options - Optional cancellation signal and streaming callback receiving the partial new content
  * @returns Promise resolving to generation result or null if generation fails
  */
 export async function requestInlineCompletion(
   document: vscode.TextDocument,
   position: vscode.Position,
-  ollamaService: OllamaService
+  modelService: ModelService,
+  options?: RequestOptions
 ): Promise<GenerationResult | null> {
   try {
-    const context: string = ContextBuilder.getUserPrompt(document, position)
-    const result: GenerationResult | null = await requestOllama(
+    if (ConfigManager.isFimModel()) {
+      return await requestInfill(document, position, modelService, options)
+    }
+    const context: string = await ContextBuilder.getUserPrompt(document, position)
+    const result: GenerationResult | null = await requestGeneration(
       context,
       generationFormat,
-      ollamaService,
-      'completion'
+      modelService,
+      'completion',
+      getStreamingOptions(options)
     )
     return result
   } catch (error: unknown) {
@@ -67,27 +230,90 @@ export async function requestInlineCompletion(
   }
 }
 
+/**
+ * Generates alternative code completion suggestions using text generation service.
+ * @description Sends the requests in parallel with increasing temperature starting at the temperature of the
+ * inline completion profile and builds the prompt once.
+ * Only the first request streams its partial content.
+ * @param document - The text document where completion is requested
+ * @param position - The cursor position in the document
+ * @param modelService - Service instance for text generation communication
+ * @param candidateCount - Number of candidates to request
+ * @param options - Optional cancellation signal and streaming callback receiving the partial new content
+ * @returns Promise resolving to the successful generation results in request order
+ */
+export async function requestInlineCandidates(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  modelService: ModelService,
+  candidateCount: number,
+  options?: RequestOptions
+): Promise<GenerationResult[]> {
+  try {
+    if (candidateCount <= 1) {
+      const result: GenerationResult | null = await requestInlineCompletion(
+        document,
+        position,
+        modelService,
+        options
+      )
+      return result ? [result] : []
+    }
+    const { onChunk, ...baseOptions }: RequestOptions = options ?? {}
+    const isFimModel: boolean = ConfigManager.isFimModel()
+    const context: string = isFimModel ? '' : await ContextBuilder.getUserPrompt(document, position)
+    const baseTemperature: number =
+      ConfigManager.getGenerationProfile('completion').temperature ?? defaultTemperature
+    const requests: Array<Promise<GenerationResult | null>> = Array.from(
+      { length: candidateCount },
+      (_: unknown, index: number) => {
+        const temperature: number = baseTemperature + index * candidateTemperatureStep
+        const candidateOptions: RequestOptions =
+          index === 0 && onChunk
+            ? { ...baseOptions, temperature, onChunk }
+            : { ...baseOptions, temperature }
+        return isFimModel
+          ? requestInfill(document, position, modelService, candidateOptions)
+          : requestGeneration(
+              context,
+              generationFormat,
+              modelService,
+              'completion',
+              getStreamingOptions(candidateOptions)
+            )
+      }
+    )
+    const results: Array<GenerationResult | null> = await Promise.all(requests)
+    return results.filter((result: GenerationResult | null): result is GenerationResult =>
+      Boolean(result)
+    )
+  } catch (error: unknown) {
+    LogHandler.handle(error, 'requestInlineCandidates', false, 'error')
+    return []
+  }
+}
+
 /**
  * Generates lint fix suggestions using text generation service.
  * @description Creates code suggestions to fix linting issues in the document
  * @param document - The text document where lint fix is requested
  * @param position - The cursor position in the document
- * @param ollamaService - Service instance for text generation communication
+ * @param modelService - Service instance for text generation communication
  * @param lintIssue - The lint issue description to fix
  * @returns Promise resolving to generation result or null if generation fails
  */
 export async function requestLintFix(
   document: vscode.TextDocument,
   position: vscode.Position,
-  ollamaService: OllamaService,
+  modelService: ModelService,
   lintIssue: string
 ): Promise<GenerationResult | null> {
   try {
-    const context: string = ContextBuilder.getUserPrompt(document, position, lintIssue)
-    const result: GenerationResult | null = await requestOllama(
+    const context: string = await ContextBuilder.getUserPrompt(document, position, lintIssue)
+    const result: GenerationResult | null = await requestGeneration(
       context,
       generationFormat,
-      ollamaService,
+      modelService,
       'lint'
     )
     return result
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode'
 import { GenerationResult, FileTrackerData } from '@interfaces/index'
+import { ConfigManager } from '@config/index'
 import { FileTracker } from '@integrator/index'
 import { LogHandler } from '@utils/index'
 
@@ -33,11 +34,20 @@ export default class CompletionDiff {
    * Processes the completion result and stores it in the file tracker.
    * @param document - The text document where completion is being applied
    * @param result - The generation result containing completion content and positioning
+   * @param position - The cursor position the suggestion was requested at, used to anchor edits
+   * @param alternatives - Optional alternative results offered as further candidates of an 'add' suggestion
    * @description Converts the generation result to file tracker format and stores it for tracking
    */
-  public process(document: vscode.TextDocument, result: GenerationResult): void {
+  public process(
+    document: vscode.TextDocument,
+    result: GenerationResult,
+    position: vscode.Position,
+    alternatives: GenerationResult[] = []
+  ): void {
     try {
-      FileTracker.getInstance().set(this.getCompletionFormat(document, result))
+      FileTracker.getInstance().set(
+        this.getCompletionFormat(document, result, position, alternatives)
+      )
     } catch (error: unknown) {
       LogHandler.handle(error, 'completion diff', false, 'error')
     }
@@ -47,20 +57,48 @@ export default class CompletionDiff {
    * Converts generation result to file tracker data format.
    * @param document - The text document where completion is being applied
    * @param result - The generation result containing completion content and positioning
+   * @param position - The cursor position the suggestion was requested at
+   * @param alternatives - Alternative results offered as further candidates of an 'add' suggestion
    * @returns File tracker data with completion information and file metadata
    * @description Creates file tracker data by combining generation result with document information
    */
   private getCompletionFormat(
     document: vscode.TextDocument,
-    result: GenerationResult
+    result: GenerationResult,
+    position: vscode.Position,
+    alternatives: GenerationResult[]
   ): FileTrackerData {
     return {
       resTitle: result.title,
       fileUri: document.uri.toString(),
       fileLang: document.languageId,
       fileVersion: document.version,
+      selectedLineNumber: position.line + 1,
+      createdAt: Date.now(),
+      candidates: this.getCandidates(result, alternatives),
+      candidateIndex: 0,
       fileState: 'pending',
-      ...result
+      ...result,
+      model: result.model ?? ConfigManager.getCompletionModel('completion')
+    }
+  }
+
+  /**
+   * Collects the distinct new contents of an 'add' suggestion and its alternatives.
+   * @param result - The primary generation result
+   * @param alternatives - Alternative generation results
+   * @returns New contents with the primary suggestion first
+   */
+  private getCandidates(result: GenerationResult, alternatives: GenerationResult[]): string[] {
+    if (result.type !== 'add') {
+      return [result.newContent]
     }
+    const candidates: Set<string> = new Set([result.newContent])
+    alternatives.forEach((alternative: GenerationResult) => {
+      if (alternative.type === 'add' && alternative.newContent.trim() !== '') {
+        candidates.add(alternative.newContent)
+      }
+    })
+    return [...candidates]
   }
 }
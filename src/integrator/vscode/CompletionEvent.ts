@@ -1,24 +1,31 @@
 import * as vscode from 'vscode'
-import { vscodeWhitelistExt } from '@constants/index'
-import { CompletionHandler, CompletionProvider } from '@integrator/index'
+import {
+  CompletionHandler,
+  CompletionProvider,
+  CompletionSelector,
+  HistoryView,
+  LintActionProvider,
+  PreviewProvider,
+  RequestScheduler,
+  RelatedFiles
+} from '@integrator/index'
+import { FileTrackerData } from '@interfaces/index'
 import { LogHandler } from '@utils/index'
-
-/**
- * Default document selector for inline completion.
- * @description Selects files with whitelisted extensions
- */
-const defaultSelector: vscode.DocumentSelector = {
-  scheme: 'file',
-  pattern: `**/*.{${vscodeWhitelistExt.join(',')}}`
-}
+import { configSection, historyScheme, historyViewId, previewScheme } from '@constants/index'
 
 /**
  * Manages inline completion registration and file monitoring.
  * @description Registers completion providers and handles file context for code suggestions
  */
-export default class CompletionEvent {
+export default class CompletionEvent implements vscode.Disposable {
   /** Extension context for managing subscriptions */
   private readonly context: vscode.ExtensionContext
+  /** Inline completion provider shared across registrations */
+  private readonly completionProvider: CompletionProvider
+  /** Quick Fix provider shared across registrations */
+  private readonly lintActionProvider: LintActionProvider
+  /** Disposables of the currently registered providers */
+  private providerRegistrations: vscode.Disposable[] = []
 
   /**
    * Initializes a new CompletionEvent instance.
@@ -26,6 +33,8 @@ export default class CompletionEvent {
    */
   constructor(context: vscode.ExtensionContext) {
     this.context = context
+    this.completionProvider = new CompletionProvider()
+    this.lintActionProvider = new LintActionProvider()
   }
 
   /**
@@ -41,25 +50,108 @@ export default class CompletionEvent {
             CompletionHandler.getInstance().handleDismiss(source ?? '')
           }
         ),
-        vscode.commands.registerCommand('editor.action.inlineSuggest.commit', (source?: string) => {
+        vscode.commands.registerCommand(`${configSection}.CommitSuggestion`, (source?: string) => {
           CompletionHandler.getInstance().handleCommit(source ?? '')
         }),
+        vscode.commands.registerCommand(`${configSection}.AcceptCandidate`, (content: string) => {
+          CompletionHandler.getInstance().handleAcceptCandidate(content)
+        }),
+        vscode.commands.registerCommand(`${configSection}.AcceptHunk`, (hunkId: number) => {
+          CompletionHandler.getInstance().handleHunk(hunkId, 'accept')
+        }),
+        vscode.commands.registerCommand(`${configSection}.RejectHunk`, (hunkId: number) => {
+          CompletionHandler.getInstance().handleHunk(hunkId, 'dismiss')
+        }),
+        vscode.commands.registerCommand(
+          `${configSection}.ShowDiff`,
+          async (fileUri: vscode.Uri) => {
+            await CompletionHandler.getInstance().showDiff(fileUri)
+          }
+        ),
+        vscode.commands.registerCommand(`${configSection}.ApplyPreview`, (uri: vscode.Uri) => {
+          CompletionHandler.getInstance().applyPreview(uri)
+        }),
+        vscode.workspace.registerTextDocumentContentProvider(
+          previewScheme,
+          PreviewProvider.getInstance()
+        ),
+        PreviewProvider.getInstance(),
+        vscode.window.createTreeView(historyViewId, {
+          treeDataProvider: HistoryView.getInstance()
+        }),
+        vscode.workspace.registerTextDocumentContentProvider(
+          historyScheme,
+          HistoryView.getInstance()
+        ),
+        vscode.commands.registerCommand(
+          `${configSection}.ShowHistoryDiff`,
+          async (entry: FileTrackerData) => {
+            await HistoryView.getInstance().showDiff(entry)
+          }
+        ),
+        vscode.commands.registerCommand(
+          `${configSection}.ReapplySuggestion`,
+          async (entry: FileTrackerData) => {
+            await HistoryView.getInstance().reapply(entry)
+          }
+        ),
+        vscode.commands.registerCommand(
+          `${configSection}.RevertSuggestion`,
+          async (entry: FileTrackerData) => {
+            await HistoryView.getInstance().revert(entry)
+          }
+        ),
+        HistoryView.getInstance(),
         vscode.commands.registerCommand('editor.action.inlineSuggest.acceptNextLine', () => {
-          LogHandler.handleAcceptWarning()
+          CompletionHandler.getInstance().handlePartialAccept('line')
         }),
         vscode.commands.registerCommand('editor.action.inlineSuggest.acceptNextWord', () => {
-          LogHandler.handleAcceptWarning()
+          CompletionHandler.getInstance().handlePartialAccept('word')
         })
       )
+      this.registerProviders()
       this.context.subscriptions.push(
-        vscode.languages.registerCodeLensProvider(defaultSelector, CompletionHandler.getInstance()),
-        vscode.languages.registerInlineCompletionItemProvider(
-          defaultSelector,
-          new CompletionProvider()
-        )
+        vscode.workspace.onDidChangeConfiguration((event: vscode.ConfigurationChangeEvent) => {
+          if (CompletionSelector.affectsSelector(event)) {
+            this.registerProviders()
+          }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+          this.registerProviders()
+        }),
+        RequestScheduler.getInstance(),
+        RelatedFiles.getInstance(),
+        this
       )
     } catch (error: unknown) {
       LogHandler.handle(error, 'completion event listener initialization', true, 'error')
     }
   }
+
+  /**
+   * Disposes of the registered completion providers.
+   * @description Removes the CodeLens, inline completion and Quick Fix providers from the editor
+   */
+  public dispose(): void {
+    this.providerRegistrations.forEach((registration: vscode.Disposable) => {
+      registration.dispose()
+    })
+    this.providerRegistrations = []
+  }
+
+  /**
+   * Registers the CodeLens, inline completion and Quick Fix providers.
+   * @description Replaces existing registrations so include and exclude settings apply without reload
+   */
+  private registerProviders(): void {
+    this.dispose()
+    const selector: vscode.DocumentFilter[] = CompletionSelector.getSelector()
+    this.providerRegistrations = [
+      vscode.languages.registerCodeLensProvider(selector, CompletionHandler.getInstance()),
+      vscode.languages.registerInlineCompletionItemProvider(selector, this.completionProvider),
+      vscode.languages.registerCodeActionsProvider(selector, this.lintActionProvider, {
+        providedCodeActionKinds: LintActionProvider.providedCodeActionKinds
+      })
+    ]
+  }
 }
@@ -1,26 +1,74 @@
 import * as vscode from 'vscode'
-import { FileTrackerData } from '@interfaces/index'
-import { FileTracker, StatusBarItem } from '@integrator/index'
+import { AcceptUnit, EventType, FileTrackerData, GenerationHunk } from '@interfaces/index'
+import {
+  ContentMatcher,
+  FileTracker,
+  PreviewProvider,
+  RequestScheduler,
+  StatusBarItem
+} from '@integrator/index'
+import { ConfigManager } from '@config/index'
 import { LogHandler } from '@utils/index'
-import { configSection } from '@constants/index'
+import { configSection, previewScheme } from '@constants/index'
+
+/**
+ * Hunk previewed for review.
+ * @description Holds the replaced document text and proposed content needed to locate and resolve a hunk
+ */
+type PreviewHunk = GenerationHunk & {
+  /** Identifier used by the hunk CodeLens commands */
+  hunkId: number
+  /** URI of the file the hunk belongs to */
+  fileUri: string
+  /** Zero-based line of the old content, or the line added content is inserted at, when it was last located */
+  line: number
+}
+
+/**
+ * Hunk anchored on the old content in the document.
+ * @description Pairs a hunk with the range of its old content, added content has an empty range at its insert position
+ */
+type AnchoredHunk<T extends GenerationHunk = GenerationHunk> = {
+  /** The hunk of the suggestion */
+  hunk: T
+  /** Range of the old content in the document */
+  range: vscode.Range
+}
+
+/**
+ * Gutter icon marking the first line of a previewed hunk.
+ * @description Inline SVG data URI rendered next to the old content
+ */
+const gutterIcon: string =
+  'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTYiIGhlaWdodD0iMTYiIHZpZXdCb3g9IjAgMCAxNiAxNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8cmVjdCB4PSIxIiB5PSIxIiB3aWR0aD0iMTQiIGhlaWdodD0iMTQiIGZpbGw9IiMxMDY0OWMiIHN0cm9rZT0iIzBkNGY4MSIgc3Ryb2tlLXdpZHRoPSIxLjUiIHJ4PSIyIiByeT0iMiIvPgogIDxwYXRoIGQ9Ik02IDRsNCA0LTQgNHYtMkg2VjR6IiBmaWxsPSJ3aGl0ZSIvPgo8L3N2Zz4='
+
+/**
+ * Resolution of a previewed hunk.
+ * @description Accepting applies the hunk, dismissing restores the old content
+ */
+type HunkAction = Exclude<EventType, 'pending'>
 
 /**
  * Handles completion events and provides code lens functionality.
- * @description Manages completion commit/dismiss actions and provides code lenses for completion suggestions
+ * @description Manages completion commit/dismiss actions and provides code lenses for completion suggestions.
+ * Every hunk of a suggestion is highlighted without touching the buffer, the proposed file is
+ * served as virtual document for the diff editor and hunks are accepted or rejected on their own or all at once.
  */
 export default class CompletionHandler implements vscode.CodeLensProvider {
   /** Array of code decorations to display */
   private static readonly codeDecorations: vscode.TextEditorDecorationType[] = []
-  /** Array of code lenses to display */
-  private readonly codeLenses: vscode.CodeLens[] = []
   /** Singleton instance of the completion handler */
   private static instance: CompletionHandler | null = null
   /** Current file source URI for tracking completion state */
   private static fileSource: string | undefined = undefined
-  /** Old range of the file */
-  private static fileOldRange: vscode.Range | undefined = undefined
-  /** New range of the file */
-  private static fileNewRange: vscode.Range | undefined = undefined
+  /** Hunks currently previewed in the document */
+  private previewHunks: PreviewHunk[] = []
+  /** Identifier of the next previewed hunk */
+  private nextHunkId: number = 0
+  /** Emitter asking the editor to query the code lenses again */
+  private readonly codeLensEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter()
+  /** Event fired when the code lenses of the previewed hunks change */
+  public readonly onDidChangeCodeLenses: vscode.Event<void> = this.codeLensEmitter.event
 
   /**
    * Private constructor for singleton pattern.
@@ -32,7 +80,7 @@ export default class CompletionHandler implements vscode.CodeLensProvider {
 
   /**
    * Provides code lenses for the given document.
-   * @description Generates interactive code lenses for completion suggestions and actions
+   * @description Anchors the hunks of a pending suggestion and generates diff, accept and reject lenses for them
    * @param document - The text document to provide code lenses for
    * @param token - Cancellation token for aborting the operation
    * @returns Promise resolving to code lenses array or null if no lenses available
@@ -45,87 +93,30 @@ export default class CompletionHandler implements vscode.CodeLensProvider {
       if (token.isCancellationRequested) {
         return []
       }
-      if (this.codeLenses.length > 0) {
-        this.refreshCodeLenses()
-        return this.codeLenses
+      if (this.previewHunks.length > 0) {
+        return this.hasPreviewHunks(document) ? this.getPreviewCodeLenses(document) : []
       }
       const fileTrackerData: FileTrackerData = FileTracker.getInstance().get(
         document.uri.toString()
       )
-      if (
-        Object.keys(fileTrackerData).length > 0 &&
-        !['edit', 'delete'].includes(fileTrackerData.type)
-      ) {
+      if (Object.keys(fileTrackerData).length === 0 || fileTrackerData.fileState !== 'pending') {
+        this.clearDecorations()
+        return []
+      }
+      const trackedHunks: GenerationHunk[] = this.getTrackedHunks(fileTrackerData)
+      if (trackedHunks.length === 0) {
         const statusTitle: string =
           fileTrackerData.type === 'none' ? fileTrackerData.title : 'Have Pending Changes'
         StatusBarItem.getInstance().show(`$(info) ${configSection}: ${statusTitle}`)
         return []
       }
-      if (fileTrackerData.fileState === 'pending') {
-        this.clearDecorations()
-        const resRange: Array<vscode.Range> | null = this.getContentRange(document, fileTrackerData)
-        if (resRange?.[0] && resRange?.[1]) {
-          this.handleInsertPreviewCode(resRange, fileTrackerData)
-          const gutterDecoration: vscode.TextEditorDecorationType =
-            vscode.window.createTextEditorDecorationType({
-              gutterIconPath: vscode.Uri.parse(
-                'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTYiIGhlaWdodD0iMTYiIHZpZXdCb3g9IjAgMCAxNiAxNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8cmVjdCB4PSIxIiB5PSIxIiB3aWR0aD0iMTQiIGhlaWdodD0iMTQiIGZpbGw9IiMxMDY0OWMiIHN0cm9rZT0iIzBkNGY4MSIgc3Ryb2tlLXdpZHRoPSIxLjUiIHJ4PSIyIiByeT0iMiIvPgogIDxwYXRoIGQ9Ik02IDRsNCA0LTQgNHYtMkg2VjR6IiBmaWxsPSJ3aGl0ZSIvPgo8L3N2Zz4='
-              ),
-              isWholeLine: false
-            })
-          const deletedDecoration: vscode.TextEditorDecorationType =
-            vscode.window.createTextEditorDecorationType({
-              color: 'rgba(136, 136, 136, 1)',
-              backgroundColor: 'rgba(255, 0, 0, 0.1)',
-              borderWidth: '0 0 0 3px',
-              borderColor: 'rgba(204, 102, 102, 0.3)',
-              isWholeLine: true,
-              fontStyle: 'italic',
-              fontWeight: 'lighter',
-              cursor: 'pointer'
-            })
-          vscode.window.activeTextEditor?.setDecorations(gutterDecoration, [
-            new vscode.Range(
-              new vscode.Position(resRange[0].start.line, 0),
-              new vscode.Position(resRange[0].start.line, 0)
-            )
-          ])
-          vscode.window.activeTextEditor?.setDecorations(deletedDecoration, [resRange[0]])
-          CompletionHandler.codeDecorations.push(gutterDecoration, deletedDecoration)
-          if (fileTrackerData.type === 'edit') {
-            const createdDecorations: vscode.TextEditorDecorationType =
-              vscode.window.createTextEditorDecorationType({
-                backgroundColor: 'rgba(255, 255, 128, 0.1)',
-                isWholeLine: true
-              })
-            vscode.window.activeTextEditor?.setDecorations(createdDecorations, [resRange[1]])
-            CompletionHandler.codeDecorations.push(createdDecorations)
-          }
-          const startRange: vscode.Range = new vscode.Range(resRange[0].start, resRange[0].end)
-          this.codeLenses.push(
-            new vscode.CodeLens(startRange, {
-              title: '✓ Accept [TAB]',
-              command: 'editor.action.inlineSuggest.commit',
-              arguments: ['codelens']
-            }),
-            new vscode.CodeLens(startRange, {
-              title: ' ✕ Reject [ESC]',
-              command: 'editor.action.inlineSuggest.dismiss',
-              arguments: ['codelens']
-            })
-          )
-          vscode.commands.executeCommand('vscode.executeCodeLensProvider', document.uri)
-          return this.codeLenses
-        }
-        this.codeLenses.length = 0
+      if (!this.createPreviewHunks(document, trackedHunks, fileTrackerData)) {
         this.clearDecorations()
         this.clearFileTracker()
-        this.refreshCodeLenses()
-      } else {
-        this.clearDecorations()
-        this.refreshCodeLenses()
+        return []
       }
-      return []
+      this.codeLensEmitter.fire()
+      return this.getPreviewCodeLenses(document)
     } catch (error: unknown) {
       StatusBarItem.getInstance().show(`$(error) ${configSection}: CodeLens Failed`)
       LogHandler.handle(error, 'provideCodeLenses', false, 'error')
@@ -144,8 +135,9 @@ export default class CompletionHandler implements vscode.CodeLensProvider {
   }
 
   /**
-   * Handles commit action for inline completion suggestions.
-   * @description Commits the current completion suggestion by inserting the new content at the current cursor position
+   * Handles commit action for previewed hunks.
+   * @description Accepts all previewed hunks when triggered from the code lens or the editor shows them,
+   * inline 'add' suggestions are committed by the editor itself
    * @param source - The source that triggered the commit action ('codelens' or other)
    */
   public handleCommit(source: string): void {
@@ -154,37 +146,97 @@ export default class CompletionHandler implements vscode.CodeLensProvider {
       if (!activeEditor) {
         return
       }
-      const currentChange: FileTrackerData | null = this.getCurrentChange() ?? null
-      const codeEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
-      if (source === 'codelens') {
-        codeEdit.delete(
-          activeEditor.document.uri,
-          CompletionHandler.fileOldRange ?? new vscode.Range(0, 0, 0, 0)
-        )
-        vscode.workspace.applyEdit(codeEdit).then(() => {
-          this.saveFileChanges()
-        })
-        return
-      } else {
-        if (currentChange) {
-          codeEdit.insert(
-            activeEditor.document.uri,
-            activeEditor.selection.active,
-            `${currentChange.newContent}\n`
-          )
-        }
+      if (source === 'codelens' || this.hasPreviewHunks(activeEditor.document)) {
+        this.resolveHunks(this.getPreviewHunkIds(), 'accept')
       }
-      vscode.workspace.applyEdit(codeEdit).then(() => {
-        this.saveFileChanges()
-      })
     } catch (error: unknown) {
       LogHandler.handle(error, 'handleCommit', false, 'error')
     }
   }
 
+  /**
+   * Handles an inline suggestion accepted by the editor.
+   * @description Runs after the editor inserted the shown item, the accepted candidate is found by its text
+   * so the editor's own next and previous suggestion commands can cycle through the candidates
+   * @param content - The text of the accepted inline completion item
+   */
+  public handleAcceptCandidate(content: string): void {
+    try {
+      const activeEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
+      const currentChange: FileTrackerData | null = this.getCurrentChange()
+      if (
+        !activeEditor ||
+        currentChange?.fileState !== 'pending' ||
+        !FileTracker.isInline(currentChange)
+      ) {
+        return
+      }
+      const candidateIndex: number = currentChange.candidates.indexOf(content)
+      if (candidateIndex !== -1 && currentChange.remainingContent === undefined) {
+        FileTracker.getInstance().update({ ...currentChange, candidateIndex, newContent: content })
+      }
+      this.finishSuggestion(activeEditor.document, 'accept')
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'handleAcceptCandidate', false, 'error')
+    }
+  }
+
+  /**
+   * Handles partial accept action for inline completion suggestions.
+   * @description Inserts the next word or line of the pending 'add' suggestion and keeps the remaining text
+   * as ghost text, the suggestion is finished when nothing is left. The new content keeps the whole suggestion
+   * so the history shows and reverts what was accepted.
+   * @param unit - Whether the next word or the next line is accepted
+   */
+  public handlePartialAccept(unit: AcceptUnit): void {
+    try {
+      const activeEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
+      const currentChange: FileTrackerData | null = this.getCurrentChange()
+      const shownContent: string =
+        currentChange?.remainingContent ?? currentChange?.newContent ?? ''
+      if (
+        !activeEditor ||
+        currentChange?.fileState !== 'pending' ||
+        !FileTracker.isInline(currentChange) ||
+        shownContent === ''
+      ) {
+        LogHandler.handleAcceptWarning()
+        return
+      }
+      const acceptedContent: string = this.getNextPart(shownContent, unit)
+      const remainingContent: string = shownContent.slice(acceptedContent.length)
+      const { document }: vscode.TextEditor = activeEditor
+      const insertOffset: number = document.offsetAt(activeEditor.selection.active)
+      activeEditor
+        .edit((editBuilder: vscode.TextEditorEdit) => {
+          editBuilder.insert(activeEditor.selection.active, acceptedContent)
+        })
+        .then((isApplied: boolean) => {
+          if (!isApplied) {
+            return
+          }
+          const cursor: vscode.Position = document.positionAt(insertOffset + acceptedContent.length)
+          activeEditor.selection = new vscode.Selection(cursor, cursor)
+          if (remainingContent.trim() === '') {
+            this.finishSuggestion(document, 'accept')
+            return
+          }
+          FileTracker.getInstance().update({
+            ...currentChange,
+            remainingContent,
+            fileVersion: document.version
+          })
+          this.retriggerInlineSuggest()
+        })
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'handlePartialAccept', false, 'error')
+    }
+  }
+
   /**
    * Handles dismiss action for inline completion suggestions.
-   * @description Dismisses the current completion suggestion and clears the file tracker
+   * @description Rejects all previewed hunks when triggered from the code lens or the editor shows them,
+   * otherwise dismisses the current completion suggestion and clears the file tracker
    * @param source - The source that triggered the dismiss action ('codelens' or other)
    */
   public handleDismiss(source: string): void {
@@ -193,17 +245,11 @@ export default class CompletionHandler implements vscode.CodeLensProvider {
       if (!activeEditor) {
         return
       }
-      if (source === 'codelens') {
-        const codeEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
-        codeEdit.delete(
-          activeEditor.document.uri,
-          CompletionHandler.fileNewRange ?? new vscode.Range(0, 0, 0, 0)
-        )
-        vscode.workspace.applyEdit(codeEdit).then(() => {
-          this.saveFileChanges()
-        })
+      if (source === 'codelens' || this.hasPreviewHunks(activeEditor.document)) {
+        this.resolveHunks(this.getPreviewHunkIds(), 'dismiss')
         return
       }
+      RequestScheduler.getInstance().cancel()
       this.clearFileTracker()
     } catch (error: unknown) {
       LogHandler.handle(error, 'handleDismiss', false, 'error')
@@ -211,45 +257,492 @@ export default class CompletionHandler implements vscode.CodeLensProvider {
   }
 
   /**
-   * Inserts the preview code into the active editor.
-   * @description Inserts preview code changes into the editor for user review
-   * @param range - The range to insert the preview code into
-   * @param fileTrackerData - The file tracker data containing the code changes
+   * Handles accept or reject action of a single previewed hunk.
+   * @description Resolves the hunk and keeps the previews of the remaining hunks
+   * @param hunkId - Identifier of the previewed hunk
+   * @param action - Whether the hunk is accepted or dismissed
    */
-  private handleInsertPreviewCode(range: vscode.Range[], fileTrackerData: FileTrackerData): void {
+  public handleHunk(hunkId: number, action: HunkAction): void {
     try {
-      const activeEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
-      if (activeEditor) {
-        const codeEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
-        codeEdit.insert(
-          activeEditor.document.uri,
-          range[0]?.end ?? new vscode.Position(0, 0),
-          fileTrackerData.newContent.length > 0 ? `\n${fileTrackerData.newContent}` : '',
-          {
+      this.resolveHunks([hunkId], action)
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'handleHunk', false, 'error')
+    }
+  }
+
+  /**
+   * Gets the hunks of a suggestion that are previewed.
+   * @description Inline 'add' suggestions are shown as ghost text instead
+   * @param fileTrackerData - The file tracker data of the suggestion
+   * @returns The primary operation followed by the additional hunks that can be previewed
+   */
+  private getTrackedHunks(fileTrackerData: FileTrackerData): GenerationHunk[] {
+    if (FileTracker.isInline(fileTrackerData)) {
+      return []
+    }
+    const operations: GenerationHunk[] = fileTrackerData.operations ?? []
+    return [fileTrackerData, ...operations].filter((hunk: GenerationHunk) =>
+      ['add', 'edit', 'delete'].includes(hunk.type)
+    )
+  }
+
+  /**
+   * Creates the previewed hunks of a suggestion.
+   * @description Anchors every hunk near its line hint or the cursor and skips hunks that are not found
+   * or overlap a previous hunk, the document itself is not changed. Added content is inserted at its
+   * line hint or below its anchor.
+   * @param document - The text document of the suggestion
+   * @param hunks - The hunks of the suggestion
+   * @param fileTrackerData - The file tracker data containing the suggestion
+   * @returns True if at least one hunk is previewed
+   */
+  private createPreviewHunks(
+    document: vscode.TextDocument,
+    hunks: GenerationHunk[],
+    fileTrackerData: FileTrackerData
+  ): boolean {
+    const anchoredHunks: AnchoredHunk[] = []
+    for (const hunk of hunks) {
+      const targetLine: number = ContentMatcher.getTargetLine(
+        document,
+        fileTrackerData.selectedLineNumber,
+        hunk.startLine
+      )
+      const range: vscode.Range | null = this.findHunkRange(document, hunk, targetLine)
+      if (
+        range &&
+        !anchoredHunks.some((anchored: AnchoredHunk) => anchored.range.intersection(range))
+      ) {
+        anchoredHunks.push({ hunk, range })
+      }
+    }
+    anchoredHunks.sort((left: AnchoredHunk, right: AnchoredHunk) =>
+      left.range.start.compareTo(right.range.start)
+    )
+    this.previewHunks = anchoredHunks.map(({ hunk, range }: AnchoredHunk) => ({
+      hunkId: this.nextHunkId++,
+      type: hunk.type,
+      fileUri: document.uri.toString(),
+      oldContent: document.getText(range),
+      newContent: hunk.newContent,
+      anchor: hunk.anchor,
+      line: this.getHunkLine(hunk, range)
+    }))
+    CompletionHandler.fileSource = document.uri.toString()
+    return this.previewHunks.length > 0
+  }
+
+  /**
+   * Creates the decorations and code lenses of the previewed hunks.
+   * @description Hunks whose old content can no longer be found are dropped and the proposed file is updated.
+   * Show Diff, Accept All and Reject All lenses are added above the first hunk.
+   * @param document - The text document of the previewed hunks
+   * @returns Code lenses of the previewed hunks
+   */
+  private getPreviewCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    this.clearDecorations()
+    const anchoredHunks: Array<AnchoredHunk<PreviewHunk>> = this.getAnchoredHunks(document)
+    this.previewHunks = anchoredHunks.map(({ hunk }: AnchoredHunk<PreviewHunk>) => hunk)
+    const [firstHunk]: Array<AnchoredHunk<PreviewHunk>> = anchoredHunks
+    if (!firstHunk) {
+      PreviewProvider.getInstance().clear(document.uri)
+      this.clearFileTracker()
+      return []
+    }
+    PreviewProvider.getInstance().set(
+      document.uri,
+      this.getProposedContent(document, anchoredHunks)
+    )
+    this.setPreviewDecorations(document, anchoredHunks)
+    const diffLens: vscode.CodeLens = new vscode.CodeLens(firstHunk.range, {
+      title: '$(diff) Show Diff',
+      command: `${configSection}.ShowDiff`,
+      arguments: [document.uri]
+    })
+    const hunkLenses: vscode.CodeLens[] = anchoredHunks.flatMap(
+      ({ hunk, range }: AnchoredHunk<PreviewHunk>) => this.getHunkCodeLenses(range, hunk)
+    )
+    if (anchoredHunks.length === 1) {
+      return [...hunkLenses, diffLens]
+    }
+    return [
+      new vscode.CodeLens(firstHunk.range, {
+        title: '✓ Accept All [TAB]',
+        command: `${configSection}.CommitSuggestion`,
+        arguments: ['codelens']
+      }),
+      new vscode.CodeLens(firstHunk.range, {
+        title: ' ✕ Reject All [ESC]',
+        command: 'editor.action.inlineSuggest.dismiss',
+        arguments: ['codelens']
+      }),
+      diffLens,
+      ...hunkLenses
+    ]
+  }
+
+  /**
+   * Creates the accept and reject code lenses of a previewed hunk.
+   * @description A single hunk keeps the keyboard hints of the inline suggestion commands
+   * @param range - The range of the old content of the hunk
+   * @param hunk - The previewed hunk
+   * @returns Accept and reject code lenses
+   */
+  private getHunkCodeLenses(range: vscode.Range, hunk: PreviewHunk): vscode.CodeLens[] {
+    if (this.previewHunks.length === 1) {
+      return [
+        new vscode.CodeLens(range, {
+          title: '✓ Accept [TAB]',
+          command: `${configSection}.CommitSuggestion`,
+          arguments: ['codelens']
+        }),
+        new vscode.CodeLens(range, {
+          title: ' ✕ Reject [ESC]',
+          command: 'editor.action.inlineSuggest.dismiss',
+          arguments: ['codelens']
+        })
+      ]
+    }
+    return [
+      new vscode.CodeLens(range, {
+        title: '✓ Accept',
+        command: `${configSection}.AcceptHunk`,
+        arguments: [hunk.hunkId]
+      }),
+      new vscode.CodeLens(range, {
+        title: ' ✕ Reject',
+        command: `${configSection}.RejectHunk`,
+        arguments: [hunk.hunkId]
+      })
+    ]
+  }
+
+  /**
+   * Highlights the old content of the previewed hunks.
+   * @description Added content marks the line it is inserted above and shows the content on hover
+   * @param document - The text document of the previewed hunks
+   * @param anchoredHunks - The previewed hunks with their current range
+   */
+  private setPreviewDecorations(
+    document: vscode.TextDocument,
+    anchoredHunks: Array<AnchoredHunk<PreviewHunk>>
+  ): void {
+    const editor: vscode.TextEditor | undefined = vscode.window.visibleTextEditors.find(
+      (visibleEditor: vscode.TextEditor) =>
+        visibleEditor.document.uri.toString() === document.uri.toString()
+    )
+    if (!editor) {
+      return
+    }
+    const gutterDecoration: vscode.TextEditorDecorationType =
+      vscode.window.createTextEditorDecorationType({
+        gutterIconPath: vscode.Uri.parse(gutterIcon),
+        isWholeLine: false
+      })
+    const deletedDecoration: vscode.TextEditorDecorationType =
+      vscode.window.createTextEditorDecorationType({
+        color: 'rgba(136, 136, 136, 1)',
+        backgroundColor: 'rgba(255, 0, 0, 0.1)',
+        borderWidth: '0 0 0 3px',
+        borderColor: 'rgba(204, 102, 102, 0.3)',
+        isWholeLine: true,
+        fontStyle: 'italic',
+        fontWeight: 'lighter',
+        cursor: 'pointer'
+      })
+    const addedDecoration: vscode.TextEditorDecorationType =
+      vscode.window.createTextEditorDecorationType({
+        borderWidth: '2px 0 0 0',
+        borderStyle: 'solid',
+        borderColor: 'rgba(102, 204, 102, 0.6)',
+        isWholeLine: true
+      })
+    const addedHunks: Array<AnchoredHunk<PreviewHunk>> = anchoredHunks.filter(
+      ({ hunk }: AnchoredHunk<PreviewHunk>) => hunk.type === 'add'
+    )
+    editor.setDecorations(
+      gutterDecoration,
+      anchoredHunks.map(
+        ({ range }: AnchoredHunk<PreviewHunk>) =>
+          new vscode.Range(range.start.line, 0, range.start.line, 0)
+      )
+    )
+    editor.setDecorations(
+      deletedDecoration,
+      anchoredHunks
+        .filter(({ hunk }: AnchoredHunk<PreviewHunk>) => hunk.type !== 'add')
+        .map(({ range }: AnchoredHunk<PreviewHunk>) => range)
+    )
+    editor.setDecorations(
+      addedDecoration,
+      addedHunks.map(({ hunk, range }: AnchoredHunk<PreviewHunk>) => ({
+        range,
+        hoverMessage: new vscode.MarkdownString().appendCodeblock(
+          hunk.newContent,
+          document.languageId
+        )
+      }))
+    )
+    CompletionHandler.codeDecorations.push(gutterDecoration, deletedDecoration, addedDecoration)
+  }
+
+  /**
+   * Opens the diff editor between the file and its proposed content.
+   * @param fileUri - URI of the file with previewed hunks
+   */
+  public async showDiff(fileUri: vscode.Uri): Promise<void> {
+    try {
+      if (!PreviewProvider.getInstance().has(fileUri)) {
+        StatusBarItem.getInstance().show(`$(info) ${configSection}: No Pending Changes`)
+        return
+      }
+      const fileName: string = fileUri.path.split('/').pop() ?? fileUri.path
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        fileUri,
+        PreviewProvider.getPreviewUri(fileUri),
+        `${fileName} ↔ ${configSection} Suggestion`,
+        { preview: true }
+      )
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'showDiff', true, 'error')
+    }
+  }
+
+  /**
+   * Applies all previewed hunks of a file.
+   * @description Used from the diff editor, accepts the proposal in one atomic edit
+   * @param uri - URI of the file or of its preview document
+   */
+  public applyPreview(uri: vscode.Uri): void {
+    try {
+      const fileUri: vscode.Uri =
+        uri.scheme === previewScheme ? PreviewProvider.getFileUri(uri) : uri
+      if (this.previewHunks[0]?.fileUri !== fileUri.toString()) {
+        StatusBarItem.getInstance().show(`$(info) ${configSection}: No Pending Changes`)
+        return
+      }
+      this.resolveHunks(this.getPreviewHunkIds(), 'accept')
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'applyPreview', false, 'error')
+    }
+  }
+
+  /**
+   * Accepts or dismisses previewed hunks.
+   * @description Accepting applies all selected hunks in a single edit, dismissing leaves the document unchanged.
+   * The suggestion is finished when no hunk is left.
+   * @param hunkIds - Identifiers of the hunks to resolve
+   * @param action - Whether the hunks are accepted or dismissed
+   */
+  private resolveHunks(hunkIds: number[], action: HunkAction): void {
+    const fileUri: string | undefined = this.previewHunks[0]?.fileUri
+    const document: vscode.TextDocument | undefined = vscode.workspace.textDocuments.find(
+      (textDocument: vscode.TextDocument) => textDocument.uri.toString() === fileUri
+    )
+    const codeEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+    if (document && action === 'accept') {
+      this.getAnchoredHunks(document)
+        .filter(({ hunk }: AnchoredHunk<PreviewHunk>) => hunkIds.includes(hunk.hunkId))
+        .forEach((anchoredHunk: AnchoredHunk<PreviewHunk>) => {
+          const editRange: vscode.Range = this.getEditRange(document, anchoredHunk)
+          codeEdit.replace(document.uri, editRange, this.getHunkContent(anchoredHunk), {
             needsConfirmation: false,
             label: 'Refactor Code',
-            description: fileTrackerData.title,
             iconPath: new vscode.ThemeIcon('book')
-          }
-        )
-        vscode.workspace.applyEdit(codeEdit)
+          })
+        })
+    }
+    this.previewHunks = this.previewHunks.filter(
+      (hunk: PreviewHunk) => !hunkIds.includes(hunk.hunkId)
+    )
+    vscode.workspace.applyEdit(codeEdit).then(() => {
+      if (this.previewHunks.length > 0) {
+        this.refreshCodeLenses()
+        return
+      }
+      if (document) {
+        PreviewProvider.getInstance().clear(document.uri)
+      }
+      this.finishSuggestion(document, action)
+    })
+  }
+
+  /**
+   * Locates the old content of the previewed hunks in the document.
+   * @description Only unchanged old content is kept, so offsets of the proposal stay valid
+   * @param document - The text document of the previewed hunks
+   * @returns Previewed hunks with their current range, ordered by position
+   */
+  private getAnchoredHunks(document: vscode.TextDocument): Array<AnchoredHunk<PreviewHunk>> {
+    const anchoredHunks: Array<AnchoredHunk<PreviewHunk>> = []
+    for (const hunk of this.previewHunks) {
+      const range: vscode.Range | null = this.findHunkRange(document, hunk, hunk.line)
+      if (range && document.getText(range) === hunk.oldContent) {
+        hunk.line = this.getHunkLine(hunk, range)
+        anchoredHunks.push({ hunk, range })
       }
-    } catch (error: unknown) {
-      LogHandler.handle(error, 'handleInsertPreviewCode', false, 'error')
     }
+    return anchoredHunks
   }
 
   /**
-   * Saves the file changes.
-   * @description Saves the current file and updates the completion state
+   * Finds the range of a hunk in the document.
+   * @description Edit and delete hunks are located by their old content, added content by its anchor or line
+   * @param document - The text document of the hunk
+   * @param hunk - The hunk to locate
+   * @param targetLine - Zero-based line the hunk should be closest to
+   * @returns The range of the old content, an empty range at the insert position or null if not found
    */
-  private saveFileChanges(): void {
-    vscode.commands.executeCommand('workbench.action.files.save')
-    StatusBarItem.getInstance().show(`$(check) ${configSection}: Changes Applied`)
-    this.codeLenses.length = 0
+  private findHunkRange(
+    document: vscode.TextDocument,
+    hunk: GenerationHunk,
+    targetLine: number
+  ): vscode.Range | null {
+    if (hunk.type !== 'add') {
+      return ContentMatcher.findRange(document, hunk.oldContent, targetLine)
+    }
+    const position: vscode.Position | null = ContentMatcher.findInsertPosition(
+      document,
+      hunk.anchor,
+      targetLine
+    )
+    return position ? new vscode.Range(position, position) : null
+  }
+
+  /**
+   * Gets the line a hunk is located again at.
+   * @description Content appended to the last line is inserted at the line after it
+   * @param hunk - The hunk
+   * @param range - The current range of the hunk
+   * @returns Zero-based line of the hunk
+   */
+  private getHunkLine(hunk: GenerationHunk, range: vscode.Range): number {
+    return hunk.type === 'add' && range.start.character > 0
+      ? range.start.line + 1
+      : range.start.line
+  }
+
+  /**
+   * Gets the content written when a hunk is accepted.
+   * @param anchoredHunk - The previewed hunk with its current range
+   * @returns The new content, added content as whole lines
+   */
+  private getHunkContent({ hunk, range }: AnchoredHunk<PreviewHunk>): string {
+    return hunk.type === 'add'
+      ? ContentMatcher.getInsertText(range.start, hunk.newContent)
+      : hunk.newContent
+  }
+
+  /**
+   * Gets the range replaced when a hunk is accepted.
+   * @description Deleting whole lines also removes their line break
+   * @param document - The text document of the hunk
+   * @param anchoredHunk - The previewed hunk with the range of its old content
+   * @returns The range replaced by the new content
+   */
+  private getEditRange(
+    document: vscode.TextDocument,
+    { hunk, range }: AnchoredHunk<PreviewHunk>
+  ): vscode.Range {
+    if (hunk.newContent.length > 0) {
+      return range
+    }
+    const lineStart: vscode.Position = document.lineAt(range.start.line).range.start
+    const isWholeLine: boolean =
+      document.getText(new vscode.Range(lineStart, range.start)).trim() === '' &&
+      document.lineAt(range.end.line).range.end.isEqual(range.end)
+    if (!isWholeLine) {
+      return range
+    }
+    if (range.end.line + 1 < document.lineCount) {
+      return new vscode.Range(lineStart, new vscode.Position(range.end.line + 1, 0))
+    }
+    return new vscode.Range(lineStart, range.end)
+  }
+
+  /**
+   * Gets the content of the document with all previewed hunks applied.
+   * @param document - The text document of the previewed hunks
+   * @param anchoredHunks - The previewed hunks with their current range, ordered by position
+   * @returns The proposed content of the document
+   */
+  private getProposedContent(
+    document: vscode.TextDocument,
+    anchoredHunks: Array<AnchoredHunk<PreviewHunk>>
+  ): string {
+    const content: string = document.getText()
+    let proposedContent: string = ''
+    let offset: number = 0
+    for (const anchoredHunk of anchoredHunks) {
+      const editRange: vscode.Range = this.getEditRange(document, anchoredHunk)
+      proposedContent += content.slice(offset, document.offsetAt(editRange.start))
+      proposedContent += this.getHunkContent(anchoredHunk)
+      offset = document.offsetAt(editRange.end)
+    }
+    return proposedContent + content.slice(offset)
+  }
+
+  /**
+   * Gets the next part of a suggestion to accept.
+   * @description A word includes its leading whitespace, a line includes its line break
+   * @param content - The remaining content of the suggestion
+   * @param unit - Whether the next word or the next line is accepted
+   * @returns The leading part of the content, or the whole content if it has no further parts
+   */
+  private getNextPart(content: string, unit: AcceptUnit): string {
+    const partPattern: RegExp = unit === 'word' ? /^\s*(?:\w+|[^\w\s]+)/ : /^[^\n]*\n?/
+    const match: RegExpExecArray | null = partPattern.exec(content)
+    return match?.[0] !== undefined && match[0] !== '' ? match[0] : content
+  }
+
+  /**
+   * Checks whether hunks of a document are previewed.
+   * @param document - The text document
+   * @returns True if the previewed hunks belong to the document
+   */
+  private hasPreviewHunks(document: vscode.TextDocument): boolean {
+    return this.previewHunks[0]?.fileUri === document.uri.toString()
+  }
+
+  /**
+   * Gets the identifiers of all previewed hunks.
+   * @returns Identifiers of the previewed hunks
+   */
+  private getPreviewHunkIds(): number[] {
+    return this.previewHunks.map((hunk: PreviewHunk) => hunk.hunkId)
+  }
+
+  /**
+   * Finishes a resolved suggestion.
+   * @description Cleans up the tracker, decorations and code lenses, then saves the file only when enabled
+   * @param document - The text document of the suggestion
+   * @param action - Whether the suggestion was accepted or dismissed
+   */
+  private finishSuggestion(document: vscode.TextDocument | undefined, action: HunkAction): void {
+    const statusTitle: string = action === 'accept' ? 'Changes Applied' : 'Changes Rejected'
+    StatusBarItem.getInstance().show(`$(check) ${configSection}: ${statusTitle}`)
     this.refreshCodeLenses()
     this.clearDecorations()
-    this.clearFileTracker()
+    this.clearFileTracker(action)
+    if (document) {
+      this.saveFileChanges(document)
+    }
+  }
+
+  /**
+   * Saves the file changes.
+   * @description Saves the document only when the save on accept setting is enabled for it,
+   * otherwise the file stays dirty so format on save and file watchers are not triggered
+   * @param document - The text document to save
+   */
+  private saveFileChanges(document: vscode.TextDocument): void {
+    if (!document.isDirty || !ConfigManager.getSaveOnAccept(document.uri)) {
+      return
+    }
+    document.save().then(undefined, (error: unknown) => {
+      LogHandler.handle(error, 'saveFileChanges', false, 'error')
+    })
   }
 
   /**
@@ -257,6 +750,7 @@ export default class CompletionHandler implements vscode.CodeLensProvider {
    * @description Triggers a refresh of code lenses to update their display state
    */
   private refreshCodeLenses(): void {
+    this.codeLensEmitter.fire()
     const activeEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
     if (!activeEditor) {
       return
@@ -278,48 +772,27 @@ export default class CompletionHandler implements vscode.CodeLensProvider {
 
   /**
    * Clears the file tracker and resets completion state.
-   * @description Hides the status bar, clears file tracker data, hides inline suggestions, and triggers new completion
+   * @description Hides the status bar, resolves the pending file tracker data, hides inline suggestions, and triggers new completion.
+   * The resolved entry stays in the tracker so the accepted candidate is recorded.
+   * @param action - Whether the pending suggestion was accepted or dismissed
    */
-  public clearFileTracker(): void {
+  public clearFileTracker(action: HunkAction = 'dismiss'): void {
     try {
       StatusBarItem.getInstance().hide()
-      FileTracker.getInstance().clearFile(CompletionHandler.fileSource ?? '')
-      vscode.commands.executeCommand('editor.action.inlineSuggest.hide')
-      vscode.commands.executeCommand('editor.action.inlineSuggest.trigger')
+      FileTracker.getInstance().resolve(CompletionHandler.fileSource ?? '', action)
+      this.retriggerInlineSuggest()
     } catch (error: unknown) {
       LogHandler.handle(error, 'clearFileTracker', false, 'error')
     }
   }
 
   /**
-   * Gets the range of content changes in the document.
-   * @description Calculates the old and new content ranges for code changes based on file tracker data
-   * @param document - The text document to analyze
-   * @param data - The file tracker data containing old and new content
-   * @returns Array containing old and new ranges, or null if old content not found
+   * Hides the shown ghost text and requests inline suggestions again.
+   * @description Makes the editor show the current state of the file tracker
    */
-  private getContentRange(
-    document: vscode.TextDocument,
-    data: FileTrackerData
-  ): Array<vscode.Range> | null {
-    const fullDocument: string = document.getText()
-    const oldStartIndex: number = fullDocument.indexOf(data.oldContent)
-    if (oldStartIndex === -1) {
-      return null
-    }
-    const oldRange: vscode.Range = new vscode.Range(
-      document.positionAt(oldStartIndex),
-      document.positionAt(oldStartIndex + data.oldContent.length)
-    )
-    CompletionHandler.fileOldRange = oldRange
-    const newRange: vscode.Range = new vscode.Range(
-      oldRange.end.line + 1,
-      0,
-      oldRange.end.line + 1 + data.newContent.split('\n').length - 1,
-      oldRange.end.character
-    )
-    CompletionHandler.fileNewRange = newRange
-    return [oldRange, newRange]
+  private retriggerInlineSuggest(): void {
+    vscode.commands.executeCommand('editor.action.inlineSuggest.hide')
+    vscode.commands.executeCommand('editor.action.inlineSuggest.trigger')
   }
 
   /**
@@ -1,35 +1,59 @@
 import * as vscode from 'vscode'
-import { GenerationResult, FileTrackerData } from '@interfaces/index'
+import { GenerationResult, FileTrackerData, RequestOptions } from '@interfaces/index'
 import {
-  requestInlineCompletion,
+  requestInlineCandidates,
   CompletionDiff,
   StatusBarItem,
-  FileTracker
+  FileTracker,
+  RequestScheduler,
+  CompletionSelector,
+  StateManager
 } from '@integrator/index'
-import { OllamaService } from '@services/index'
+import { ConfigManager } from '@config/index'
+import { ProviderService } from '@services/index'
 import { configSection } from '@constants/index'
 import { LogHandler } from '@utils/index'
 
+/**
+ * Streaming session state for partial inline completions.
+ * @description Tracks the document snapshot and accumulated content of an ongoing streamed request
+ */
+type StreamSession = {
+  /** URI of the document the stream was started for */
+  fileUri: string
+  /** Version of the document when the stream was started */
+  fileVersion: number
+  /** Cursor position when the stream was started */
+  position: vscode.Position
+  /** Partial new content received so far */
+  content: string
+  /** Controller used to abort the streamed request */
+  controller: AbortController
+}
+
 /**
  * Manages inline code suggestions using the editor's InlineCompletionItemProvider.
  * @description Provides inline suggestions with keyboard shortcuts for code completion.
- * Only handles 'add' operations - other operations (edit, delete, none) are managed by CompletionHandler.ts
+ * Only handles 'add' operations without additional hunks - other operations are managed by CompletionHandler.ts
  */
 export default class CompletionProvider implements vscode.InlineCompletionItemProvider {
-  /** Ollama service instance for text generation requests */
-  private readonly ollamaService: OllamaService
+  /** Provider service instance for text generation requests */
+  private readonly providerService: ProviderService
   /** Status bar item instance for displaying completion information */
   private readonly statusBarItem: StatusBarItem
-  /** Currently active generation request promise or null if no request is pending */
-  private ollamaOngoing: Promise<GenerationResult | null> | null = null
+  /** Scheduler debouncing and cancelling generation requests */
+  private readonly requestScheduler: RequestScheduler
+  /** Currently active streaming session or null if no stream is running */
+  private streamSession: StreamSession | null = null
 
   /**
    * Initializes a new CompletionProvider instance.
    * @description Creates a new completion provider with service instances
    */
   constructor() {
-    this.ollamaService = new OllamaService()
+    this.providerService = new ProviderService()
     this.statusBarItem = StatusBarItem.getInstance()
+    this.requestScheduler = RequestScheduler.getInstance()
   }
 
   /**
@@ -47,31 +71,46 @@ export default class CompletionProvider implements vscode.InlineCompletionItemPr
     token: vscode.CancellationToken
   ): Promise<vscode.InlineCompletionItem[]> {
     try {
+      if (!StateManager.getInstance().isEnabled() || !CompletionSelector.isEnabled(document)) {
+        return []
+      }
+      const streamedItems: vscode.InlineCompletionItem[] | null = this.handleStreamSession(
+        document,
+        position
+      )
+      if (streamedItems) {
+        return streamedItems
+      }
       const previousResult: FileTrackerData | null = this.handleSessionCompletion(
         document,
         context,
         token
       )
       if (previousResult) {
-        if (previousResult.type === 'add') {
-          return [new vscode.InlineCompletionItem(previousResult.newContent)]
-        }
+        return FileTracker.isInline(previousResult) ? this.getCandidateItems(previousResult) : []
+      }
+      const fileVersion: number = document.version
+      const [completionResult, ...alternativeResults]: GenerationResult[] =
+        await this.requestCompletion(document, position, token)
+      if (this.requestScheduler.isStale(document, fileVersion)) {
         return []
       }
-      this.statusBarItem.show('$(loading~spin) Generating Completion...')
-      this.ollamaOngoing = requestInlineCompletion(document, position, this.ollamaService)
-      const completionResult: GenerationResult | null = await this.ollamaOngoing
       if (!completionResult) {
-        this.statusBarItem.show(`$(close) ${configSection}: Invalid response format`)
+        if (!token.isCancellationRequested) {
+          this.statusBarItem.show(`$(close) ${configSection}: Invalid response format`)
+        }
         return []
       }
       this.statusBarItem.show(`$(lightbulb) ${configSection}: ${completionResult.title}`)
-      CompletionDiff.getInstance().process(document, completionResult)
+      CompletionDiff.getInstance().process(document, completionResult, position, alternativeResults)
       const fileTrackerData: FileTrackerData = FileTracker.getInstance().get(
         document.uri.toString()
       )
-      if (fileTrackerData.type === 'add') {
-        return [new vscode.InlineCompletionItem(fileTrackerData.newContent)]
+      if (FileTracker.isInline(fileTrackerData)) {
+        if (token.isCancellationRequested) {
+          vscode.commands.executeCommand('editor.action.inlineSuggest.trigger')
+        }
+        return this.getCandidateItems(fileTrackerData)
       } else {
         vscode.commands.executeCommand('vscode.executeCodeLensProvider', document.uri)
       }
@@ -80,9 +119,145 @@ export default class CompletionProvider implements vscode.InlineCompletionItemPr
       this.statusBarItem.show(`$(error) ${configSection}: Completion failed`)
       LogHandler.handle(error, 'provideInlineCompletionItems', false, 'error')
       return []
+    }
+  }
+
+  /**
+   * Creates the inline completion items of an 'add' suggestion.
+   * @description The primary suggestion comes first and the editor cycles through the others,
+   * once part of the suggestion was accepted only the remaining content is offered.
+   * Accepting an item reports its text so the accepted candidate is recorded.
+   * @param fileTrackerData - The file tracker data of the suggestion
+   * @returns Completion items for the editor to cycle through
+   */
+  private getCandidateItems(fileTrackerData: FileTrackerData): vscode.InlineCompletionItem[] {
+    const { candidates, newContent, remainingContent }: FileTrackerData = fileTrackerData
+    const contents: string[] =
+      remainingContent === undefined
+        ? [...new Set([newContent, ...candidates])]
+        : [remainingContent]
+    return contents.map((content: string) => {
+      const completionItem: vscode.InlineCompletionItem = new vscode.InlineCompletionItem(content)
+      completionItem.command = {
+        title: 'Accept Suggestion',
+        command: `${configSection}.AcceptCandidate`,
+        arguments: [content]
+      }
+      return completionItem
+    })
+  }
+
+  /**
+   * Schedules and sends an inline completion request.
+   * @description Debounces the request and aborts it when the token fires or the document changes.
+   * Requests the configured number of candidates, the first result is the primary suggestion.
+   * @param document - The text document where completion is requested
+   * @param position - The cursor position where completion is requested
+   * @param token - Cancellation token for aborting the operation
+   * @returns Promise resolving to generation results or an empty array if cancelled or generation fails
+   */
+  private async requestCompletion(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<GenerationResult[]> {
+    const debounceDelay: number = ConfigManager.getDebounceDelay()
+    const isScheduled: boolean = await this.requestScheduler.debounce(debounceDelay, token)
+    if (!isScheduled) {
+      return []
+    }
+    this.statusBarItem.show('$(loading~spin) Generating Completion...')
+    const isStreaming: boolean = ConfigManager.getStreamCompletion()
+    /** Streamed requests outlive the token because partial updates re-trigger the provider */
+    const controller: AbortController = this.requestScheduler.begin(document, token, !isStreaming)
+    try {
+      const completionResults: GenerationResult[] = await requestInlineCandidates(
+        document,
+        position,
+        this.providerService,
+        ConfigManager.getCompletionCandidates(),
+        this.getRequestOptions(document, position, controller, isStreaming)
+      )
+      if (controller.signal.aborted) {
+        this.statusBarItem.hide()
+        return []
+      }
+      return completionResults
     } finally {
-      this.ollamaOngoing = null
+      this.requestScheduler.end(controller)
+      if (this.streamSession?.controller === controller) {
+        this.streamSession = null
+      }
+    }
+  }
+
+  /**
+   * Builds the request options for an inline completion request.
+   * @description Starts a streaming session when streaming is enabled so partial content is shown as ghost text
+   * @param document - The text document where completion is requested
+   * @param position - The cursor position where completion is requested
+   * @param controller - Controller used to abort the request
+   * @param isStreaming - Whether partial content is streamed
+   * @returns Request options with abort signal and optional streaming callback
+   */
+  private getRequestOptions(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    controller: AbortController,
+    isStreaming: boolean
+  ): RequestOptions {
+    if (!isStreaming) {
+      return { signal: controller.signal }
+    }
+    const session: StreamSession = {
+      fileUri: document.uri.toString(),
+      fileVersion: document.version,
+      position,
+      content: '',
+      controller
+    }
+    this.streamSession = session
+    return {
+      signal: controller.signal,
+      onChunk: (partialContent: string): void => {
+        if (
+          partialContent.trim() === '' ||
+          partialContent === session.content ||
+          this.streamSession !== session
+        ) {
+          return
+        }
+        session.content = partialContent
+        vscode.commands.executeCommand('editor.action.inlineSuggest.trigger')
+      }
+    }
+  }
+
+  /**
+   * Serves partial content of the ongoing streaming session.
+   * @description Returns the streamed ghost text when the document is unchanged, otherwise aborts the stale stream
+   * @param document - The text document where completion is requested
+   * @param position - The cursor position where completion is requested
+   * @returns Completion items with the partial content, or null if no matching stream is running
+   */
+  private handleStreamSession(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.InlineCompletionItem[] | null {
+    const session: StreamSession | null = this.streamSession
+    if (!session) {
+      return null
+    }
+    if (
+      session.fileUri === document.uri.toString() &&
+      session.fileVersion === document.version &&
+      session.position.isEqual(position)
+    ) {
+      return session.content === '' ? [] : [new vscode.InlineCompletionItem(session.content)]
     }
+    session.controller.abort()
+    this.streamSession = null
+    return null
   }
 
   /**
@@ -110,7 +285,7 @@ export default class CompletionProvider implements vscode.InlineCompletionItemPr
       ) {
         return null
       }
-      if (token.isCancellationRequested || this.ollamaOngoing) {
+      if (token.isCancellationRequested) {
         return null
       }
       const fileTrackerData: FileTrackerData = FileTracker.getInstance().get(
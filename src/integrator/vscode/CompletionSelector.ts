@@ -0,0 +1,108 @@
+import * as vscode from 'vscode'
+import { ConfigManager } from '@config/index'
+import {
+  configSection,
+  configIncludeLanguages,
+  configExcludeLanguages,
+  configIncludePatterns,
+  configExcludePatterns,
+  vscodeWhitelistExt
+} from '@constants/index'
+
+/**
+ * Resolves which documents receive inline completions.
+ * @description Builds the document selector from the extension whitelist and the include settings,
+ * and applies exclude settings with workspace folder overrides per document
+ */
+export default class CompletionSelector {
+  /** Schemes matched by language filters so untitled buffers are supported */
+  private static readonly LANGUAGE_SCHEMES: string[] = ['file', 'untitled']
+  /** Setting keys that change which documents are selected */
+  private static readonly SELECTOR_SETTINGS: string[] = [
+    configIncludeLanguages,
+    configExcludeLanguages,
+    configIncludePatterns,
+    configExcludePatterns
+  ]
+
+  /**
+   * Gets the document selector used to register completion providers.
+   * @description Combines the whitelisted extensions with include settings of the workspace and all folders
+   * @returns Document filters matching every document that may receive completions
+   */
+  public static getSelector(): vscode.DocumentFilter[] {
+    const folders: readonly vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders ?? []
+    const scopes: Array<vscode.ConfigurationScope | undefined> = [undefined, ...folders]
+    const languages: Set<string> = new Set()
+    const patterns: Set<string> = new Set()
+    for (const scope of scopes) {
+      ConfigManager.getIncludeLanguages(scope).forEach((language: string) =>
+        languages.add(language)
+      )
+      ConfigManager.getIncludePatterns(scope).forEach((pattern: string) => patterns.add(pattern))
+    }
+    const filters: vscode.DocumentFilter[] = [this.getWhitelistFilter()]
+    patterns.forEach((pattern: string) => {
+      filters.push({ scheme: 'file', pattern })
+    })
+    languages.forEach((language: string) => {
+      CompletionSelector.LANGUAGE_SCHEMES.forEach((scheme: string) => {
+        filters.push({ scheme, language })
+      })
+    })
+    return filters
+  }
+
+  /**
+   * Checks whether a document receives inline completions.
+   * @description Applies include and exclude settings resolved for the document's workspace folder
+   * @param document - The text document to check
+   * @returns True if completions are enabled for the document
+   */
+  public static isEnabled(document: vscode.TextDocument): boolean {
+    const scope: vscode.Uri = document.uri
+    if (ConfigManager.getExcludeLanguages(scope).includes(document.languageId)) {
+      return false
+    }
+    const isExcluded: boolean = ConfigManager.getExcludePatterns(scope).some(
+      (pattern: string) => vscode.languages.match({ pattern }, document) > 0
+    )
+    if (isExcluded) {
+      return false
+    }
+    if (ConfigManager.getIncludeLanguages(scope).includes(document.languageId)) {
+      return true
+    }
+    const includeFilters: vscode.DocumentFilter[] = [
+      this.getWhitelistFilter(),
+      ...ConfigManager.getIncludePatterns(scope).map((pattern: string): vscode.DocumentFilter => ({
+        scheme: 'file',
+        pattern
+      }))
+    ]
+    return vscode.languages.match(includeFilters, document) > 0
+  }
+
+  /**
+   * Checks whether a configuration change affects the document selector.
+   * @description Used to re-register providers when include or exclude settings change
+   * @param event - The configuration change event
+   * @returns True if any selector setting changed
+   */
+  public static affectsSelector(event: vscode.ConfigurationChangeEvent): boolean {
+    return CompletionSelector.SELECTOR_SETTINGS.some((setting: string) =>
+      event.affectsConfiguration(`${configSection}.${setting}`)
+    )
+  }
+
+  /**
+   * Gets the document filter for the whitelisted file extensions.
+   * @returns Document filter matching files with whitelisted extensions
+   */
+  private static getWhitelistFilter(): vscode.DocumentFilter {
+    return {
+      scheme: 'file',
+      pattern: `**/*.{${vscodeWhitelistExt.join(',')}}`
+    }
+  }
+}
@@ -0,0 +1,340 @@
+import * as vscode from 'vscode'
+import { EventType, FileTrackerData, GenerationHunk } from '@interfaces/index'
+import { ContentMatcher, FileTracker } from '@integrator/index'
+import { LogHandler } from '@utils/index'
+import { configSection, historyScheme } from '@constants/index'
+
+/**
+ * Node of the completion history tree.
+ * @description A file URI groups the suggestions of a file, file tracker data is a single suggestion
+ */
+type HistoryNode = string | FileTrackerData
+
+/**
+ * Replacement of one hunk when a suggestion is applied again or reverted.
+ * @description Holds the document range and the content replacing it
+ */
+type HunkReplacement = {
+  /** Range of the document replaced by the content */
+  range: vscode.Range
+  /** Content replacing the range */
+  content: string
+}
+
+/**
+ * Icons of the suggestion states.
+ * @description Shown in front of every suggestion in the history view
+ */
+const stateIcons: Record<EventType, string> = {
+  pending: 'clock',
+  accept: 'check',
+  dismiss: 'close'
+}
+
+/**
+ * Lists recent suggestions per file in the explorer sidebar.
+ * @description Built on the file tracker data, shows the diff of a suggestion and applies dismissed
+ * suggestions again or reverts accepted ones. Serves the `nexora-history:` documents of the diff editor.
+ * Uses Singleton pattern so the tree view and the commands share the same state.
+ */
+export default class HistoryView
+  implements
+    vscode.TreeDataProvider<HistoryNode>,
+    vscode.TextDocumentContentProvider,
+    vscode.Disposable
+{
+  /** Singleton instance of the history view */
+  private static instance: HistoryView | undefined
+  /** Content of the history documents organized by URI */
+  private readonly diffContents: Map<string, string> = new Map()
+  /** Emitter asking the tree view to query the nodes again */
+  private readonly treeEmitter: vscode.EventEmitter<void> = new vscode.EventEmitter()
+  /** Listener refreshing the tree when the file tracker data changes */
+  private readonly trackerListener: vscode.Disposable
+
+  /**
+   * Private constructor to prevent direct instantiation.
+   * @description Refreshes the tree whenever the file tracker data changes
+   */
+  private constructor() {
+    this.trackerListener = FileTracker.getInstance().onDidChange(() => {
+      this.treeEmitter.fire()
+    })
+  }
+
+  /**
+   * Gets the singleton instance of HistoryView.
+   * @description Creates a new instance if none exists, otherwise returns the existing instance
+   * @returns The singleton HistoryView instance
+   */
+  public static getInstance(): HistoryView {
+    HistoryView.instance ??= new HistoryView()
+    return HistoryView.instance
+  }
+
+  /**
+   * Event fired when the nodes of the tree change.
+   * @returns Event without payload refreshing the whole tree
+   */
+  public get onDidChangeTreeData(): vscode.Event<void> {
+    return this.treeEmitter.event
+  }
+
+  /**
+   * Gets the child nodes of a node.
+   * @description Files are ordered by their latest suggestion, suggestions of a file are ordered newest first.
+   * Suggestions without changes are not listed.
+   * @param node - The parent node or undefined for the root
+   * @returns File URIs at the root, suggestions below a file
+   */
+  public getChildren(node?: HistoryNode): HistoryNode[] {
+    if (typeof node === 'string') {
+      return this.getEntries(node)
+    }
+    if (node) {
+      return []
+    }
+    const fileUris: Set<string> = new Set(
+      this.getEntries().map((entry: FileTrackerData) => entry.fileUri)
+    )
+    return [...fileUris]
+  }
+
+  /**
+   * Creates the tree item of a node.
+   * @param node - A file URI or a suggestion
+   * @returns Tree item showing the file or the title, type, time and state of the suggestion
+   */
+  public getTreeItem(node: HistoryNode): vscode.TreeItem {
+    if (typeof node === 'string') {
+      const fileUri: vscode.Uri = vscode.Uri.parse(node)
+      const fileItem: vscode.TreeItem = new vscode.TreeItem(
+        fileUri,
+        vscode.TreeItemCollapsibleState.Expanded
+      )
+      fileItem.description = vscode.workspace.asRelativePath(fileUri)
+      return fileItem
+    }
+    const time: string = new Date(node.createdAt).toLocaleTimeString()
+    const entryItem: vscode.TreeItem = new vscode.TreeItem(node.resTitle)
+    entryItem.description = `${node.type} · ${time}`
+    entryItem.tooltip = `${node.resTitle}\n${node.type} · ${node.fileState} · ${node.model} · ${time}`
+    entryItem.iconPath = new vscode.ThemeIcon(stateIcons[node.fileState])
+    entryItem.contextValue = `suggestion-${node.fileState}`
+    entryItem.command = {
+      title: 'Show Diff',
+      command: `${configSection}.ShowHistoryDiff`,
+      arguments: [node]
+    }
+    return entryItem
+  }
+
+  /**
+   * Provides the content of a history document.
+   * @param uri - URI of the virtual history document
+   * @returns The old or new content of the suggestion or an empty string if it is unknown
+   */
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.diffContents.get(uri.toString()) ?? ''
+  }
+
+  /**
+   * Opens the diff editor between the old and new content of a suggestion.
+   * @description Hunks of multi-hunk suggestions are shown one after another
+   * @param entry - The suggestion to compare
+   */
+  public async showDiff(entry: FileTrackerData): Promise<void> {
+    try {
+      const fileUri: vscode.Uri = vscode.Uri.parse(entry.fileUri)
+      const hunks: GenerationHunk[] = this.getHunks(entry)
+      const oldUri: vscode.Uri = this.setDiffContent(fileUri, entry, 'old', hunks)
+      const newUri: vscode.Uri = this.setDiffContent(fileUri, entry, 'new', hunks)
+      const fileName: string = fileUri.path.split('/').pop() ?? fileUri.path
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        oldUri,
+        newUri,
+        `${fileName}: ${entry.resTitle}`,
+        { preview: true }
+      )
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'showHistoryDiff', true, 'error')
+    }
+  }
+
+  /**
+   * Applies a dismissed suggestion again.
+   * @description Replaces the old content of every hunk near its original line, added content is inserted
+   * at its line hint, below its anchor or above the line the suggestion was requested at
+   * @param entry - The dismissed suggestion
+   */
+  public async reapply(entry: FileTrackerData): Promise<void> {
+    await this.replaceHunks(entry, false)
+  }
+
+  /**
+   * Reverts an accepted suggestion.
+   * @description Restores the old content of every hunk near its original line
+   * @param entry - The accepted suggestion
+   */
+  public async revert(entry: FileTrackerData): Promise<void> {
+    await this.replaceHunks(entry, true)
+  }
+
+  /**
+   * Disposes of the history view.
+   * @description Removes the history documents and resets the singleton instance
+   */
+  public dispose(): void {
+    this.diffContents.clear()
+    this.trackerListener.dispose()
+    this.treeEmitter.dispose()
+    HistoryView.instance = undefined
+  }
+
+  /**
+   * Gets the suggestions with changes.
+   * @param fileUri - Optional file URI limiting the suggestions to one file
+   * @returns Suggestions ordered newest first
+   */
+  private getEntries(fileUri?: string): FileTrackerData[] {
+    const fileTracker: FileTracker = FileTracker.getInstance()
+    const entries: FileTrackerData[] =
+      fileUri === undefined ? fileTracker.getAll() : fileTracker.getFileData(fileUri)
+    const changedEntries: FileTrackerData[] = entries.filter(
+      (entry: FileTrackerData) => entry.type !== 'none'
+    )
+    changedEntries.sort(
+      (left: FileTrackerData, right: FileTrackerData) => right.createdAt - left.createdAt
+    )
+    return changedEntries
+  }
+
+  /**
+   * Gets all hunks of a suggestion.
+   * @param entry - The suggestion
+   * @returns The primary operation followed by the additional hunks
+   */
+  private getHunks(entry: FileTrackerData): GenerationHunk[] {
+    const operations: GenerationHunk[] = entry.operations ?? []
+    return [entry, ...operations]
+  }
+
+  /**
+   * Stores one side of the diff of a suggestion.
+   * @description Keeps the path of the file so the diff editor detects its language
+   * @param fileUri - URI of the file of the suggestion
+   * @param entry - The suggestion
+   * @param side - Whether the old or the new content is stored
+   * @param hunks - The hunks of the suggestion
+   * @returns URI of the history document
+   */
+  private setDiffContent(
+    fileUri: vscode.Uri,
+    entry: FileTrackerData,
+    side: 'old' | 'new',
+    hunks: GenerationHunk[]
+  ): vscode.Uri {
+    const historyUri: vscode.Uri = fileUri.with({
+      scheme: historyScheme,
+      query: `${entry.createdAt}-${side}`
+    })
+    const content: string = hunks
+      .map((hunk: GenerationHunk) => {
+        return side === 'old' ? hunk.oldContent : hunk.newContent
+      })
+      .join('\n\n')
+    this.diffContents.set(historyUri.toString(), content)
+    return historyUri
+  }
+
+  /**
+   * Applies or reverts all hunks of a suggestion in a single edit.
+   * @description Nothing is changed when the content of a hunk can no longer be found
+   * @param entry - The suggestion
+   * @param isRevert - True to restore the old content, false to apply the new content
+   */
+  private async replaceHunks(entry: FileTrackerData, isRevert: boolean): Promise<void> {
+    try {
+      const document: vscode.TextDocument = await vscode.workspace.openTextDocument(
+        vscode.Uri.parse(entry.fileUri)
+      )
+      const replacements: Array<HunkReplacement | null> = this.getHunks(entry).map(
+        (hunk: GenerationHunk) => this.getReplacement(document, entry, hunk, isRevert)
+      )
+      if (replacements.some((replacement: HunkReplacement | null) => replacement === null)) {
+        LogHandler.showNotification(
+          `${configSection}: "${entry.resTitle}" no longer matches the file`,
+          'warning'
+        )
+        return
+      }
+      const codeEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+      replacements.forEach((replacement: HunkReplacement | null) => {
+        if (replacement) {
+          codeEdit.replace(document.uri, replacement.range, replacement.content)
+        }
+      })
+      if (await vscode.workspace.applyEdit(codeEdit)) {
+        FileTracker.getInstance().mark(entry, isRevert ? 'dismiss' : 'accept')
+      }
+    } catch (error: unknown) {
+      LogHandler.handle(error, isRevert ? 'revertSuggestion' : 'reapplySuggestion', true, 'error')
+    }
+  }
+
+  /**
+   * Gets the replacement of a hunk.
+   * @description Content is searched near the line hint of the hunk or the line the suggestion was requested at.
+   * Added content is inserted below its anchor when it has one. Inserted content is written as whole lines,
+   * removed whole lines also remove their line break.
+   * @param document - The text document of the suggestion
+   * @param entry - The suggestion
+   * @param hunk - The hunk to replace
+   * @param isRevert - True to restore the old content, false to apply the new content
+   * @returns The replacement or null if the content to replace is not found
+   */
+  private getReplacement(
+    document: vscode.TextDocument,
+    entry: FileTrackerData,
+    hunk: GenerationHunk,
+    isRevert: boolean
+  ): HunkReplacement | null {
+    const fromContent: string = isRevert ? hunk.newContent : hunk.oldContent
+    const toContent: string = isRevert ? hunk.oldContent : hunk.newContent
+    const targetLine: number = Math.min(
+      ContentMatcher.getTargetLine(document, entry.selectedLineNumber, hunk.startLine),
+      document.lineCount - 1
+    )
+    if (fromContent === '') {
+      const position: vscode.Position | null = ContentMatcher.findInsertPosition(
+        document,
+        hunk.anchor,
+        targetLine
+      )
+      return position
+        ? {
+            range: new vscode.Range(position, position),
+            content: ContentMatcher.getInsertText(position, toContent)
+          }
+        : null
+    }
+    const range: vscode.Range | null = ContentMatcher.findRange(document, fromContent, targetLine)
+    if (!range) {
+      return null
+    }
+    if (toContent !== '' || range.end.line + 1 >= document.lineCount) {
+      return { range, content: toContent }
+    }
+    const lineStart: vscode.Position = document.lineAt(range.start.line).range.start
+    const isWholeLine: boolean =
+      document.getText(new vscode.Range(lineStart, range.start)).trim() === '' &&
+      document.lineAt(range.end.line).range.end.isEqual(range.end)
+    return {
+      range: isWholeLine
+        ? new vscode.Range(lineStart, new vscode.Position(range.end.line + 1, 0))
+        : range,
+      content: ''
+    }
+  }
+}
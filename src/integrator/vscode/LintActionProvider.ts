@@ -0,0 +1,65 @@
+import * as vscode from 'vscode'
+import { CompletionSelector, StateManager } from '@integrator/index'
+import { configSection } from '@constants/index'
+
+/**
+ * Provides Quick Fix code actions for editor diagnostics.
+ * @description Offers "Fix with Nexora AI" on every diagnostic at the requested range,
+ * the fix is generated by the FixDiagnostic command and previewed with the edit/delete CodeLens
+ */
+export default class LintActionProvider implements vscode.CodeActionProvider {
+  /** Code action kinds provided by this provider */
+  public static readonly providedCodeActionKinds: vscode.CodeActionKind[] = [
+    vscode.CodeActionKind.QuickFix
+  ]
+  /** Maximum length of the diagnostic message shown in the action title */
+  private static readonly MAX_TITLE_MESSAGE_LENGTH: number = 60
+
+  /**
+   * Provides code actions for the diagnostics at the given range.
+   * @description No actions are offered while completions are disabled or snoozed, or in excluded documents
+   * @param document - The text document the actions are requested for
+   * @param range - The range or selection the actions are requested for
+   * @returns Quick Fix code actions, one per diagnostic intersecting the range
+   */
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): vscode.CodeAction[] {
+    if (!StateManager.getInstance().isEnabled() || !CompletionSelector.isEnabled(document)) {
+      return []
+    }
+    const diagnostics: vscode.Diagnostic[] = vscode.languages
+      .getDiagnostics(document.uri)
+      .filter((diagnostic: vscode.Diagnostic) => diagnostic.range.intersection(range) !== undefined)
+    return diagnostics.map((diagnostic: vscode.Diagnostic) => {
+      const title: string =
+        diagnostics.length > 1
+          ? `Fix with Nexora AI: ${this.getShortMessage(diagnostic)}`
+          : 'Fix with Nexora AI'
+      const codeAction: vscode.CodeAction = new vscode.CodeAction(
+        title,
+        vscode.CodeActionKind.QuickFix
+      )
+      codeAction.diagnostics = [diagnostic]
+      codeAction.command = {
+        title,
+        command: `${configSection}.FixDiagnostic`,
+        arguments: [document.uri, diagnostic]
+      }
+      return codeAction
+    })
+  }
+
+  /**
+   * Gets the first line of a diagnostic message shortened for the action title.
+   * @param diagnostic - The diagnostic to describe
+   * @returns Shortened diagnostic message
+   */
+  private getShortMessage(diagnostic: vscode.Diagnostic): string {
+    const message: string = diagnostic.message.split('\n')[0] ?? ''
+    return message.length > LintActionProvider.MAX_TITLE_MESSAGE_LENGTH
+      ? `${message.slice(0, LintActionProvider.MAX_TITLE_MESSAGE_LENGTH)}...`
+      : message
+  }
+}
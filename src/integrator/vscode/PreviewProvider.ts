@@ -0,0 +1,127 @@
+import * as vscode from 'vscode'
+import { previewScheme } from '@constants/index'
+
+/**
+ * Provides the proposed content of suggestions as virtual documents.
+ * @description Serves read-only `nexora-preview:` documents compared against the real file in the diff editor.
+ * Uses Singleton pattern so the handler and the diff editor share the same proposals.
+ */
+export default class PreviewProvider
+  implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  /** Singleton instance of the preview provider */
+  private static instance: PreviewProvider | undefined
+  /** Proposed content organized by preview URI */
+  private readonly previews: Map<string, string> = new Map()
+  /** Emitter notifying the editor about changed proposals */
+  private readonly changeEmitter: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter()
+
+  /**
+   * Private constructor to prevent direct instantiation.
+   * @description Enforces singleton pattern by making constructor private
+   */
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Gets the singleton instance of PreviewProvider.
+   * @description Creates a new instance if none exists, otherwise returns the existing instance
+   * @returns The singleton PreviewProvider instance
+   */
+  public static getInstance(): PreviewProvider {
+    PreviewProvider.instance ??= new PreviewProvider()
+    return PreviewProvider.instance
+  }
+
+  /**
+   * Gets the preview URI of a file.
+   * @description Keeps the path so the diff editor detects the language of the file
+   * @param fileUri - URI of the real file
+   * @returns URI of the virtual preview document
+   */
+  public static getPreviewUri(fileUri: vscode.Uri): vscode.Uri {
+    return fileUri.with({ scheme: previewScheme, query: fileUri.toString() })
+  }
+
+  /**
+   * Gets the real file URI of a preview document.
+   * @param previewUri - URI of the virtual preview document
+   * @returns URI of the real file
+   */
+  public static getFileUri(previewUri: vscode.Uri): vscode.Uri {
+    return vscode.Uri.parse(previewUri.query)
+  }
+
+  /**
+   * Event fired when the proposed content of a preview document changes.
+   * @returns Event emitting the changed preview URI
+   */
+  public get onDidChange(): vscode.Event<vscode.Uri> {
+    return this.changeEmitter.event
+  }
+
+  /**
+   * Provides the proposed content of a preview document.
+   * @description Falls back to the current file content so open diff editors show no changes after the proposal is resolved
+   * @param uri - URI of the virtual preview document
+   * @returns The proposed content, the file content or an empty string if the file is not open
+   */
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    const proposedContent: string | undefined = this.previews.get(uri.toString())
+    if (proposedContent !== undefined) {
+      return proposedContent
+    }
+    const fileUri: string = PreviewProvider.getFileUri(uri).toString()
+    const fileDocument: vscode.TextDocument | undefined = vscode.workspace.textDocuments.find(
+      (textDocument: vscode.TextDocument) => textDocument.uri.toString() === fileUri
+    )
+    return fileDocument?.getText() ?? ''
+  }
+
+  /**
+   * Checks whether a file has a proposal.
+   * @param fileUri - URI of the real file
+   * @returns True if a proposal is stored for the file
+   */
+  public has(fileUri: vscode.Uri): boolean {
+    return this.previews.has(PreviewProvider.getPreviewUri(fileUri).toString())
+  }
+
+  /**
+   * Stores the proposed content of a file.
+   * @description Notifies open diff editors only when the content changes
+   * @param fileUri - URI of the real file
+   * @param content - The proposed content of the file
+   */
+  public set(fileUri: vscode.Uri, content: string): void {
+    const previewUri: vscode.Uri = PreviewProvider.getPreviewUri(fileUri)
+    if (this.previews.get(previewUri.toString()) === content) {
+      return
+    }
+    this.previews.set(previewUri.toString(), content)
+    this.changeEmitter.fire(previewUri)
+  }
+
+  /**
+   * Removes the proposal of a file.
+   * @description Open diff editors show the current content afterwards
+   * @param fileUri - URI of the real file
+   */
+  public clear(fileUri: vscode.Uri): void {
+    const previewUri: vscode.Uri = PreviewProvider.getPreviewUri(fileUri)
+    if (this.previews.delete(previewUri.toString())) {
+      this.changeEmitter.fire(previewUri)
+    }
+  }
+
+  /**
+   * Disposes of the provider.
+   * @description Removes all proposals and resets the singleton instance
+   */
+  public dispose(): void {
+    this.previews.clear()
+    this.changeEmitter.dispose()
+    PreviewProvider.instance = undefined
+  }
+}
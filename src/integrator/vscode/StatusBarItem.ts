@@ -1,4 +1,7 @@
 import * as vscode from 'vscode'
+import { ExtensionState } from '@interfaces/index'
+import { StateManager } from '@integrator/index'
+import { configSection } from '@constants/index'
 
 /**
  * Manages status bar display for extension notifications.
@@ -13,10 +16,11 @@ export default class StatusBarItem {
 
   /**
    * Private constructor to prevent direct instantiation.
-   * @description Creates a status bar item positioned on the right side
+   * @description Creates a status bar item positioned on the right side that opens the quick menu on click
    */
   private constructor() {
     this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100)
+    this.statusBarItem.command = `${configSection}.ShowMenu`
   }
 
   /**
@@ -38,22 +42,56 @@ export default class StatusBarItem {
   public show(text: string, tooltip?: string): void {
     if (this.statusBarItem) {
       this.statusBarItem.text = text
-      this.statusBarItem.tooltip = tooltip ?? ''
+      this.statusBarItem.tooltip = tooltip ?? this.getStateTooltip()
       this.statusBarItem.show()
     }
   }
 
+  /**
+   * Shows the extension state indicator in the status bar.
+   * @description Displays whether completions are enabled, disabled or snoozed
+   */
+  public showState(): void {
+    const stateManager: StateManager = StateManager.getInstance()
+    const state: ExtensionState = stateManager.getState()
+    if (state === 'disabled') {
+      this.show(`$(circle-slash) ${configSection}: Disabled`)
+    } else if (state === 'snoozed') {
+      const snoozeUntil: Date | null = stateManager.getSnoozeUntil()
+      const time: string = snoozeUntil
+        ? snoozeUntil.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : ''
+      this.show(`$(clock) ${configSection}: Snoozed until ${time}`)
+    } else {
+      this.show(`$(lightbulb) ${configSection}: Ready!`)
+    }
+  }
+
   /**
    * Hides the status bar item and cleans up its content.
-   * @description Hides the status bar item and resets its text and tooltip
+   * @description Hides the status bar item and resets its text and tooltip.
+   * Keeps the state indicator visible while completions are disabled or snoozed.
    */
   public hide(): void {
     if (this.statusBarItem) {
+      if (!StateManager.getInstance().isEnabled()) {
+        this.showState()
+        return
+      }
       this.cleanup()
       this.statusBarItem.hide()
     }
   }
 
+  /**
+   * Gets the default tooltip describing the extension state.
+   * @returns Tooltip text with the current state and click hint
+   */
+  private getStateTooltip(): string {
+    const state: ExtensionState = StateManager.getInstance().getState()
+    return `${configSection}: Completions ${state} (click for menu)`
+  }
+
   /**
    * Cleans up status bar item content by resetting text and tooltip.
    */
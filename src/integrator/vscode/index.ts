@@ -4,12 +4,19 @@
  */
 
 export {
-  requestOllama,
+  requestGeneration,
+  requestInfill,
   requestInlineCompletion,
+  requestInlineCandidates,
   requestLintFix
 } from '@integrator/vscode/CodeGenerator'
+export { default as AccountPicker } from '@integrator/vscode/AccountPicker'
 export { default as CompletionDiff } from '@integrator/vscode/CompletionDiff'
 export { default as CompletionEvent } from '@integrator/vscode/CompletionEvent'
 export { default as CompletionHandler } from '@integrator/vscode/CompletionHandler'
 export { default as CompletionProvider } from '@integrator/vscode/CompletionProvider'
+export { default as CompletionSelector } from '@integrator/vscode/CompletionSelector'
+export { default as HistoryView } from '@integrator/vscode/HistoryView'
+export { default as LintActionProvider } from '@integrator/vscode/LintActionProvider'
+export { default as PreviewProvider } from '@integrator/vscode/PreviewProvider'
 export { default as StatusBarItem } from '@integrator/vscode/StatusBarItem'
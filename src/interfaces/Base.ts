@@ -10,12 +10,36 @@ export type LogLevel = 'error' | 'warning' | 'info'
  */
 export type EventType = 'pending' | 'accept' | 'dismiss'
 
+/**
+ * Accept unit for partial acceptance of inline suggestions
+ * @description Defines how much of the pending suggestion is inserted at once
+ */
+export type AcceptUnit = 'word' | 'line'
+
 /**
  * Completion type for completion events
  * @description Defines the category of completion events
  */
 export type CompletionType = 'action' | 'completion' | 'lint'
 
+/**
+ * Thinking level for model requests
+ * @description Disables thinking, enables it or selects the reasoning effort of thinking models
+ */
+export type ThinkLevel = boolean | 'low' | 'medium' | 'high'
+
+/**
+ * Provider type for model services
+ * @description Defines the available text generation backends
+ */
+export type ProviderType = 'ollama' | 'openai'
+
+/**
+ * Extension state for inline completions
+ * @description Defines whether completions are enabled, disabled or temporarily snoozed
+ */
+export type ExtensionState = 'enabled' | 'disabled' | 'snoozed'
+
 /**
  * Result type for completion operations
  * @description Represents the response from completion services, can be a string or null
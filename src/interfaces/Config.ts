@@ -1,29 +1,171 @@
+import { CompletionType, EventType, ProviderType, ThinkLevel } from '@interfaces/index'
+
 /**
  * Account data structure for user authentication and rate limiting
- * @description Contains user credentials and API usage limits
+ * @description Contains non-secret account metadata and API usage limits, credentials are kept in secret storage
  */
 export interface AccountData {
+  /** Row identifier of the account */
+  id: number
   /** User email address */
   email: string
-  /** User password */
+  /** Legacy plain text password, emptied once moved to secret storage */
   password: string
-  /** API key for authentication */
+  /** Legacy plain text API key, emptied once moved to secret storage */
   api_key: string
+  /** Identifier of the credentials in secret storage (null indicates not moved yet) */
+  secret_id: string | null
   /** Maximum requests allowed per hour (null indicates no limit) */
   limit_hourly: number | null
   /** Maximum requests allowed per day (null indicates no limit) */
   limit_daily: number | null
+  /** Requests made in the current hourly window */
+  usage_hourly: number
+  /** Requests made in the current daily window */
+  usage_daily: number
+  /** Start of the current hourly window in milliseconds since epoch */
+  window_hourly: number | null
+  /** Start of the current daily window (UTC) in milliseconds since epoch */
+  window_daily: number | null
+  /** Time the account is rate limited until in milliseconds since epoch (null indicates not limited) */
+  limited_until: number | null
+  /** Whether the account is excluded from requests */
+  disabled: boolean
+}
+
+/**
+ * New account data structure
+ * @description Contains the metadata and limits entered when an account is added
+ */
+export type NewAccountData = Pick<AccountData, 'email' | 'limit_hourly' | 'limit_daily'> & {
+  /** Identifier of the credentials in secret storage */
+  secret_id: string
+}
+
+/**
+ * Authentication scheme of a service host
+ * @description Bearer token, basic auth or custom request headers
+ */
+export type HostAuthType = 'bearer' | 'basic' | 'headers'
+
+/**
+ * Authentication data structure of a service host
+ * @description Kept as JSON in secret storage per host origin and applied to every request to that host
+ */
+export interface HostAuthData {
+  /** Authentication scheme of the host */
+  type: HostAuthType
+  /** Token sent as bearer token */
+  token?: string
+  /** User name of basic auth */
+  username?: string
+  /** Password of basic auth */
+  password?: string
+  /** Custom request headers keyed by header name */
+  headers?: Record<string, string>
+}
+
+/**
+ * Completion history record structure
+ * @description Represents one suggestion lifecycle event stored in the history table
+ */
+export interface HistoryData {
+  /** Model that generated the suggestion */
+  model: string
+  /** Language identifier of the file */
+  language: string
+  /** Operation type of the suggestion */
+  operation_type: string
+  /** Descriptive title of the suggestion */
+  title: string
+  /** Lifecycle event of the suggestion */
+  outcome: EventType
+  /** Duration of the generation request in milliseconds */
+  latency_ms: number
+  /** Time of the event in milliseconds since epoch */
+  created_at: number
 }
 
+/**
+ * Completion statistics structure
+ * @description Contains the suggestion outcomes of a model and language combination
+ */
+export interface HistoryStatsData {
+  /** Model that generated the suggestions */
+  model: string
+  /** Language identifier of the files */
+  language: string
+  /** Number of suggestions shown */
+  suggested: number
+  /** Number of accepted suggestions */
+  accepted: number
+  /** Number of dismissed suggestions */
+  dismissed: number
+  /** Average generation latency in milliseconds */
+  average_latency: number
+}
+
+/**
+ * Generation profile structure
+ * @description Named set of generation parameters, unset parameters use the model defaults
+ */
+export interface GenerationProfile {
+  /** Sampling temperature */
+  temperature?: number
+  /** Nucleus sampling probability mass */
+  top_p?: number
+  /** Size of the context window in tokens */
+  num_ctx?: number
+  /** Maximum number of tokens to generate */
+  num_predict?: number
+  /** Sequences that stop the generation */
+  stop?: string[]
+  /** Duration to keep the model loaded in memory (e.g. 5m) */
+  keep_alive?: string
+  /** Thinking mode of the model */
+  think?: ThinkLevel
+}
+
+/**
+ * Completion profile structure
+ * @description Generation profile and model used for one completion type
+ */
+export interface CompletionProfileData {
+  /** Name of the generation profile */
+  profile: string
+  /** Model name (empty uses the selected model) */
+  model: string
+}
+
+/**
+ * Completion profiles organized by completion type
+ * @description Maps every completion type to its generation profile and model
+ */
+export type CompletionProfiles = Record<CompletionType, CompletionProfileData>
+
 /**
  * Configuration data structure
  * @description Contains application configuration settings
  */
 export interface ConfigurationData {
+  /** Text generation backend */
+  provider: ProviderType
   /** Service host URL */
   urlHost: string
   /** File path to the database file */
   databasePath: string
-  /** Name of the currently selected model */
+  /** Name of the selected model used by completion types without their own model */
   selectedModel: string
+  /** Model used by every completion type */
+  models: Record<CompletionType, string>
+  /** Names of the models using fill-in-the-middle completion */
+  fimModels: string[]
+  /** Whether inline completions are streamed while generating */
+  streamCompletion: boolean
+  /** Number of alternative inline suggestions requested per completion */
+  completionCandidates: number
+  /** Delay in milliseconds to wait after the last keystroke before requesting a completion */
+  debounceDelay: number
+  /** Maximum number of prompt tokens for the document context */
+  maxContextTokens: number
 }
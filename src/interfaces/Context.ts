@@ -35,6 +35,55 @@ export interface FileContextData {
   }
 }
 
+/**
+ * Fill-in-the-middle context structure for infill requests
+ * @description Contains the code surrounding the cursor position
+ */
+export interface InfillContextData {
+  /** Code before the cursor position */
+  prefix: string
+  /** Code after the cursor position */
+  suffix: string
+}
+
+/**
+ * Context window structure for large documents
+ * @description Contains the document content trimmed to the token budget around the cursor
+ */
+export interface ContextWindowData {
+  /** Document content with omitted ranges replaced by elision markers */
+  content: string
+  /** First line of the window around the cursor (1-based) */
+  startLine: number
+  /** Last line of the window around the cursor (1-based) */
+  endLine: number
+  /** Whether any part of the document was omitted */
+  isTrimmed: boolean
+}
+
+/**
+ * Source of a related file included in the prompt
+ * @description Files are either imported by the current document or recently edited open tabs
+ */
+export type RelatedFileSource = 'import' | 'recent'
+
+/**
+ * Related file context structure for multi-file prompts
+ * @description Contains a snippet of a file related to the current document and its ranking score
+ */
+export interface RelatedFileData {
+  /** File path relative to the workspace */
+  filePath: string
+  /** Language identifier */
+  fileLanguageId: string
+  /** Snippet of the file content fitted into the token budget */
+  fileContent: string
+  /** Why the file is related to the current document */
+  source: RelatedFileSource
+  /** Ranking score, higher scores are included first */
+  score: number
+}
+
 /**
  * Represents a semantic token segment with text content and metadata
  * @description Contains the text content, semantic type, modifiers, and range of the token
@@ -1,4 +1,4 @@
-import { EventType } from '@interfaces/index'
+import { EventType, ThinkLevel } from '@interfaces/index'
 
 /**
  * Chat request structure for model communication
@@ -10,11 +10,11 @@ export interface ChatRequest {
   /** Array of conversation messages with role and content */
   messages: Array<{ role: string; content: string }>
   /** Generation parameters and options */
-  options: { temperature: number }
+  options: GenerationOptions
   /** Duration to keep the model loaded in memory */
   keep_alive: string
   /** Thinking mode configuration */
-  think: boolean | 'low' | 'medium' | 'high'
+  think: ThinkLevel
   /** Whether to stream the response or return complete response */
   stream: boolean
   /** Optional output format specification */
@@ -22,18 +22,88 @@ export interface ChatRequest {
 }
 
 /**
- * Result type for generation operations
- * @description Represents the response from generation services with positioning information
+ * Generation parameters for model communication
+ * @description Sampling and length parameters sent as request options, unset parameters use the model defaults
+ */
+export interface GenerationOptions {
+  /** Sampling temperature */
+  temperature: number
+  /** Nucleus sampling probability mass */
+  top_p?: number
+  /** Size of the context window in tokens */
+  num_ctx?: number
+  /** Maximum number of tokens to generate */
+  num_predict?: number
+  /** Sequences that stop the generation */
+  stop?: string[]
+}
+
+/**
+ * Fill-in-the-middle request structure for model communication
+ * @description Defines the structure for sending prefix and suffix to the generate endpoint
  */
-export interface GenerationResult {
-  /** Type of the generation */
+export interface InfillRequest {
+  /** Name of the model to use */
+  model: string
+  /** Code before the cursor */
+  prompt: string
+  /** Code after the cursor */
+  suffix: string
+  /** Generation parameters and options */
+  options: GenerationOptions
+  /** Duration to keep the model loaded in memory */
+  keep_alive: string
+  /** Thinking mode configuration */
+  think: ThinkLevel
+  /** Whether to stream the response or return complete response */
+  stream: boolean
+}
+
+/**
+ * Request options for model communication
+ * @description Controls cancellation and streaming behavior of a generation request
+ */
+export interface RequestOptions {
+  /** Signal used to abort the ongoing request */
+  signal?: AbortSignal
+  /** Callback receiving the accumulated content while streaming (enables streaming) */
+  onChunk?: (content: string) => void
+  /** Sampling temperature overriding the default temperature */
+  temperature?: number
+}
+
+/**
+ * Hunk type for a single code change
+ * @description Represents one operation of a generation response anchored on existing code
+ */
+export interface GenerationHunk {
+  /** Type of the operation */
   type: string
-  /** Old content of the generation */
+  /** Old content of the operation */
   oldContent: string
-  /** New content of the generation */
+  /** New content of the operation */
   newContent: string
+  /** Optional first line (1-based) of the old content reported by the model */
+  startLine?: number | undefined
+  /** Optional last line (1-based) of the old content reported by the model */
+  endLine?: number | undefined
+  /** Optional existing code an 'add' hunk is inserted after */
+  anchor?: string | undefined
+}
+
+/**
+ * Result type for generation operations
+ * @description Represents the response from generation services with positioning information
+ */
+export interface GenerationResult extends GenerationHunk {
   /** Descriptive title of the code suggestion */
   title: string
+  /** Optional additional edit or delete hunks in the same file */
+  operations?: GenerationHunk[] | undefined
+  /** Optional duration of the generation request in milliseconds */
+  latency?: number | undefined
+  /** Optional model that generated the suggestion */
+  model?: string | undefined
 }
 
 /**
@@ -49,6 +119,18 @@ export interface FileTrackerData extends GenerationResult {
   fileLang: string
   /** The version of the file when file tracker was set */
   fileVersion: number
+  /** Cursor line when the suggestion was requested (1-based) */
+  selectedLineNumber: number
+  /** Model that generated the suggestion */
+  model: string
+  /** Time the suggestion was received in milliseconds since epoch */
+  createdAt: number
+  /** New content of every alternative 'add' suggestion, the first one is the primary suggestion */
+  candidates: string[]
+  /** Index of the accepted candidate once the state is 'accept' */
+  candidateIndex: number
+  /** Ghost text left after part of an 'add' suggestion was accepted, the new content stays the whole suggestion */
+  remainingContent?: string | undefined
   /** The state of the file when file tracker was set */
   fileState: EventType
 }
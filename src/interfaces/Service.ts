@@ -0,0 +1,50 @@
+import { CompletionResult, CompletionType, RequestOptions } from '@interfaces/index'
+
+/**
+ * Model service contract shared by all provider backends
+ * @description Defines the operations every text generation backend must support
+ */
+export interface ModelService {
+  /**
+   * Retrieves available models from the service
+   * @returns Promise that resolves to an array of model names
+   */
+  getModels(): Promise<string[]>
+  /**
+   * Generates text completion using the model service
+   * @param prompt - Text input to send to the model
+   * @param format - Optional JSON schema for structured output
+   * @param type - The type of completion to generate
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the generated content or null on failure
+   */
+  generateCompletion(
+    prompt: string,
+    format?: object,
+    type?: CompletionType,
+    options?: RequestOptions
+  ): Promise<CompletionResult>
+  /**
+   * Generates fill-in-the-middle completion using the model service
+   * @param prefix - Code before the cursor
+   * @param suffix - Code after the cursor
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the inserted text or null on failure
+   */
+  generateInfill(
+    prefix: string,
+    suffix: string,
+    options?: RequestOptions
+  ): Promise<CompletionResult>
+  /**
+   * Checks whether an API key is accepted by the service
+   * @param apiKey - The API key to check
+   * @returns Promise that resolves to true if an authenticated test call succeeds
+   */
+  validateApiKey(apiKey: string): Promise<boolean>
+  /**
+   * Checks whether the authentication configured for the host is accepted by the service
+   * @returns Promise that resolves to true if a test call with the host authentication succeeds
+   */
+  checkAuthentication(): Promise<boolean>
+}
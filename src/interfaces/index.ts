@@ -21,3 +21,9 @@ export * from '@interfaces/Context'
  * @description Re-exports response interfaces
  */
 export * from '@interfaces/Response'
+
+/**
+ * Service interfaces
+ * @description Re-exports model service contracts
+ */
+export * from '@interfaces/Service'
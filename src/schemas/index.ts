@@ -1,43 +1,121 @@
 import { z } from 'zod'
 import { zodToJsonSchema } from 'zod-to-json-schema'
+import { maxOperationHunks } from '@constants/index'
 
 /**
- * Type definition for the generation response.
- * @description Defines the structure for code generation responses with operation types and content
+ * Type definition for a single code operation.
+ * @description Defines one change with its operation type, content and optional line hints
  */
-export type GenerationResponse = {
+export type GenerationOperation = {
   type: 'add' | 'edit' | 'delete' | 'none'
   oldContent: string
   newContent: string
+  startLine?: number | undefined
+  endLine?: number | undefined
+  anchor?: string | undefined
+}
+
+/**
+ * Type definition for the generation response.
+ * @description Defines the structure for code generation responses with a primary operation and
+ * optional additional hunks in the same file
+ */
+export type GenerationResponse = GenerationOperation & {
   title: string
+  operations?: GenerationOperation[] | undefined
+}
+
+/**
+ * Checks whether the contents of an operation match its type.
+ * @param data - The operation to validate
+ * @returns True if the combination of type and contents is valid
+ */
+function isValidOperation(data: GenerationOperation): boolean {
+  if (data.type === 'add') {
+    return data.oldContent === '' && data.newContent !== ''
+  }
+  if (data.type === 'edit') {
+    return data.oldContent !== '' && data.newContent !== ''
+  }
+  if (data.type === 'delete') {
+    return data.oldContent !== '' && data.newContent === ''
+  }
+  if (data.type === 'none') {
+    return data.oldContent === '' && data.newContent === ''
+  }
+  return true
+}
+
+/**
+ * Schema fields shared by the primary operation and additional hunks.
+ * @description Defines operation contents and optional line hints used to anchor the old content
+ */
+const operationFields: {
+  oldContent: z.ZodString
+  newContent: z.ZodString
+  startLine: z.ZodOptional<z.ZodNumber>
+  endLine: z.ZodOptional<z.ZodNumber>
+} = {
+  oldContent: z.string().describe('Old content of the generation'),
+  newContent: z.string().describe('New content of the generation'),
+  startLine: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('First line (1-based) of the old content in the file'),
+  endLine: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Last line (1-based) of the old content in the file')
 }
 
+/**
+ * Schema for additional hunks of a generation response.
+ * @description Edit and delete hunks are anchored on their old content, add hunks on their start line
+ * or on an anchor snippet of existing code because they have no old content
+ */
+const hunkSchema: z.ZodType<GenerationOperation> = z
+  .object({
+    type: z.enum(['add', 'edit', 'delete']).describe('Type of the hunk'),
+    ...operationFields,
+    anchor: z
+      .string()
+      .optional()
+      .describe('Existing code the new content of an add hunk is inserted after')
+  })
+  .refine(
+    (data: GenerationOperation) =>
+      isValidOperation(data) &&
+      (data.type !== 'add' || data.startLine !== undefined || (data.anchor ?? '').trim() !== ''),
+    { message: 'Invalid hunk combination based on the defined rules' }
+  )
+
 /**
  * Schema for code generation response format.
- * @description Defines the structure for validating code generation responses with operation type validation
+ * @description Defines the structure for validating code generation responses with operation type validation.
+ * Additional hunks are allowed next to every operation that changes the file.
  */
 export const generationSchema: z.ZodType<GenerationResponse> = z
   .object({
     type: z.enum(['add', 'edit', 'delete', 'none']).describe('Type of the generation'),
-    oldContent: z.string().describe('Old content of the generation'),
-    newContent: z.string().describe('New content of the generation'),
-    title: z.string().min(1).describe('Descriptive title of the code suggestion')
+    ...operationFields,
+    title: z.string().min(1).describe('Descriptive title of the code suggestion'),
+    operations: z
+      .array(hunkSchema)
+      .max(maxOperationHunks)
+      .optional()
+      .describe('Additional add, edit or delete hunks in the same file')
   })
   .refine(
     (data: GenerationResponse) => {
-      if (data.type === 'add') {
-        return data.oldContent === '' && data.newContent !== ''
-      }
-      if (data.type === 'edit') {
-        return data.oldContent !== '' && data.newContent !== ''
-      }
-      if (data.type === 'delete') {
-        return data.oldContent !== '' && data.newContent === ''
-      }
-      if (data.type === 'none') {
-        return data.oldContent === '' && data.newContent === ''
+      const hasHunks: boolean = (data.operations?.length ?? 0) > 0
+      if (hasHunks && data.type === 'none') {
+        return false
       }
-      return true
+      return isValidOperation(data)
     },
     {
       message: 'Invalid combination based on the defined rules'
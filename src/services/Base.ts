@@ -0,0 +1,174 @@
+import {
+  CompletionResult,
+  CompletionType,
+  GenerationOptions,
+  GenerationProfile,
+  ModelService,
+  RequestOptions
+} from '@interfaces/index'
+import { ConfigManager, SecretManager } from '@config/index'
+import { LogHandler } from '@utils/index'
+import { defaultTemperature } from '@constants/index'
+
+/**
+ * Base class for model service backends.
+ * @description Holds shared configuration state and error handling for all provider backends
+ */
+export default abstract class BaseService implements ModelService {
+  /** Error message for connection issues */
+  private static readonly CONNECTION_HELP_MESSAGE: string = 'Please ensure the service is running!'
+  /** Error message for connection failures */
+  private static readonly CONNECTION_ERROR_MESSAGE: string = 'Cannot connect to service at'
+  /** Error message for timeout issues */
+  private static readonly TIMEOUT_ERROR_MESSAGE: string = 'Connection timeout to service at'
+  /** Help message for timeout issues */
+  private static readonly TIMEOUT_HELP_MESSAGE: string = 'Please check your network connection.'
+  /** Context string for fetching models operation */
+  private static readonly FETCHING_MODELS_CONTEXT: string = 'fetching models'
+  /** Service host URL */
+  protected urlHost: string
+  /** Database file path */
+  protected databasePath: string
+
+  /**
+   * Initializes the service instance.
+   * @description Reads the service configuration and keeps it in sync with settings changes
+   */
+  constructor() {
+    this.urlHost = ConfigManager.getUrlHost()
+    this.databasePath = ConfigManager.getDatabasePath()
+    ConfigManager.onDidChangeConfiguration(() => {
+      this.urlHost = ConfigManager.getUrlHost()
+      this.databasePath = ConfigManager.getDatabasePath()
+    })
+  }
+
+  /**
+   * Retrieves available models from the service.
+   * @returns Promise that resolves to an array of model names
+   */
+  public abstract getModels(): Promise<string[]>
+
+  /**
+   * Generates text completion using the model service.
+   * @param prompt - Text input to send to the model
+   * @param format - Optional format specification for structured output
+   * @param type - The type of completion to generate
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the generated content or null on failure
+   */
+  public abstract generateCompletion(
+    prompt: string,
+    format?: object,
+    type?: CompletionType,
+    options?: RequestOptions
+  ): Promise<CompletionResult>
+
+  /**
+   * Generates fill-in-the-middle completion using the model service.
+   * @param prefix - Code before the cursor
+   * @param suffix - Code after the cursor
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the inserted text or null on failure
+   */
+  public abstract generateInfill(
+    prefix: string,
+    suffix: string,
+    options?: RequestOptions
+  ): Promise<CompletionResult>
+
+  /**
+   * Checks whether an API key is accepted by the service.
+   * @param apiKey - The API key to check
+   * @returns Promise that resolves to true if an authenticated test call succeeds
+   */
+  public abstract validateApiKey(apiKey: string): Promise<boolean>
+
+  /**
+   * Checks whether the authentication configured for the host is accepted by the service.
+   * @returns Promise that resolves to true if a test call with the host authentication succeeds
+   */
+  public abstract checkAuthentication(): Promise<boolean>
+
+  /**
+   * Gets the request headers authenticating with the configured host.
+   * @description Read from secret storage on every request so changed credentials apply immediately
+   * @returns Promise that resolves to the bearer, basic or custom headers of the host, empty if none are configured
+   */
+  protected async getAuthHeaders(): Promise<Record<string, string>> {
+    return SecretManager.getInstance().getAuthHeaders(this.urlHost)
+  }
+
+  /**
+   * Gets the generation parameters of a request.
+   * @description Parameters not set by the profile are left to the model defaults
+   * @param profile - Generation profile of the completion type
+   * @param options - Optional request options whose temperature overrides the profile temperature
+   * @returns The temperature and the sampling and length parameters set by the profile
+   */
+  protected getGenerationOptions(
+    profile: GenerationProfile,
+    options?: RequestOptions
+  ): GenerationOptions {
+    const generationOptions: GenerationOptions = {
+      temperature: options?.temperature ?? profile.temperature ?? defaultTemperature
+    }
+    if (profile.top_p !== undefined) {
+      generationOptions.top_p = profile.top_p
+    }
+    if (profile.num_ctx !== undefined) {
+      generationOptions.num_ctx = profile.num_ctx
+    }
+    if (profile.num_predict !== undefined) {
+      generationOptions.num_predict = profile.num_predict
+    }
+    if (profile.stop !== undefined && profile.stop.length > 0) {
+      generationOptions.stop = profile.stop
+    }
+    return generationOptions
+  }
+
+  /**
+   * Processes service errors and provides user-friendly messages.
+   * @description Handles different types of connection and timeout errors with appropriate user feedback
+   * @param error - The error object to process
+   */
+  protected handleError(error: unknown): void {
+    if (error instanceof Error) {
+      if (error.message.includes('fetch failed') || error.message.includes('ECONNREFUSED')) {
+        LogHandler.handleOllamaError(
+          new Error(
+            `${BaseService.CONNECTION_ERROR_MESSAGE} ${this.urlHost}. ${BaseService.CONNECTION_HELP_MESSAGE}`
+          ),
+          BaseService.FETCHING_MODELS_CONTEXT
+        )
+      } else if (error.message.includes('timeout')) {
+        LogHandler.handleOllamaError(
+          new Error(
+            `${BaseService.TIMEOUT_ERROR_MESSAGE} ${this.urlHost}. ${BaseService.TIMEOUT_HELP_MESSAGE}`
+          ),
+          BaseService.FETCHING_MODELS_CONTEXT
+        )
+      } else {
+        LogHandler.handleOllamaError(error, BaseService.FETCHING_MODELS_CONTEXT)
+      }
+    } else {
+      LogHandler.handleOllamaError(error, BaseService.FETCHING_MODELS_CONTEXT)
+    }
+  }
+
+  /**
+   * Creates a fetch function bound to an abort signal.
+   * @description Combines the request signal with the client signal so pending HTTP requests can be aborted
+   * @param signal - Signal used to abort the HTTP request
+   * @returns Fetch function that honors the abort signal
+   */
+  protected getAbortableFetch(signal: AbortSignal): typeof globalThis.fetch {
+    return (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+      const requestSignal: AbortSignal = init?.signal
+        ? AbortSignal.any([signal, init.signal])
+        : signal
+      return globalThis.fetch(input, { ...init, signal: requestSignal })
+    }
+  }
+}
@@ -1,87 +1,54 @@
-import { Ollama, ChatResponse } from 'ollama'
-import { ChatRequest, AccountData, CompletionResult, CompletionType } from '@interfaces/index'
+import { Ollama, ChatResponse, GenerateResponse, AbortableAsyncIterator } from 'ollama'
+import {
+  ChatRequest,
+  InfillRequest,
+  AccountData,
+  CompletionResult,
+  CompletionType,
+  GenerationProfile,
+  RequestOptions
+} from '@interfaces/index'
 import { ContextBuilder } from '@integrator/index'
-import { KnexManager, ConfigManager } from '@config/index'
+import { KnexManager, ConfigManager, SecretManager } from '@config/index'
+import { BaseService } from '@services/index'
 import { LogHandler, Validator } from '@utils/index'
+import { defaultKeepAlive, maxAccountAttempts } from '@constants/index'
 
 /**
  * Service for AI model communication.
  * @description Handles interactions with local or remote model services for code generation and completion
  */
-export default class OllamaService {
-  /** Error message for connection issues */
-  private static readonly CONNECTION_HELP_MESSAGE: string = 'Please ensure the service is running!'
-  /** Error message for connection failures */
-  private static readonly CONNECTION_ERROR_MESSAGE: string = 'Cannot connect to service at'
-  /** Error message for timeout issues */
-  private static readonly TIMEOUT_ERROR_MESSAGE: string = 'Connection timeout to service at'
-  /** Help message for timeout issues */
-  private static readonly TIMEOUT_HELP_MESSAGE: string = 'Please check your network connection.'
-  /** Context string for fetching models operation */
-  private static readonly FETCHING_MODELS_CONTEXT: string = 'fetching models'
-  /** Service host URL */
-  private urlHost: string
-  /** Database file path */
-  private databasePath: string
-  /** Currently selected model name */
-  private selectedModel: string
+export default class OllamaService extends BaseService {
+  /** HTTP status code returned when an account is rate limited */
+  private static readonly RATE_LIMIT_STATUS: number = 429
   /** Model service instance */
   private ollama: Ollama
+  /** Account database of the configured database path */
+  private knexManager: KnexManager | null = null
+  /** Database path the account database was opened with */
+  private knexPath: string = ''
 
   /**
    * Initializes the service instance.
-   * @description Configures the service and sets up configuration change listeners
+   * @description Configures the client and recreates it when the configuration changes
    */
   constructor() {
-    this.urlHost = ConfigManager.getUrlHost()
-    this.databasePath = ConfigManager.getDatabasePath()
-    this.selectedModel = ConfigManager.getSelectedModel()
+    super()
     this.ollama = new Ollama({ host: this.urlHost })
     ConfigManager.onDidChangeConfiguration(() => {
-      this.urlHost = ConfigManager.getUrlHost()
-      this.databasePath = ConfigManager.getDatabasePath()
-      this.selectedModel = ConfigManager.getSelectedModel()
       this.ollama = new Ollama({ host: this.urlHost })
     })
   }
 
-  /**
-   * Processes service errors and provides user-friendly messages.
-   * @description Handles different types of connection and timeout errors with appropriate user feedback
-   * @param error - The error object to process
-   */
-  private handleError(error: unknown): void {
-    if (error instanceof Error) {
-      if (error.message.includes('fetch failed') || error.message.includes('ECONNREFUSED')) {
-        LogHandler.handleOllamaError(
-          new Error(
-            `${OllamaService.CONNECTION_ERROR_MESSAGE} ${this.urlHost}. ${OllamaService.CONNECTION_HELP_MESSAGE}`
-          ),
-          OllamaService.FETCHING_MODELS_CONTEXT
-        )
-      } else if (error.message.includes('timeout')) {
-        LogHandler.handleOllamaError(
-          new Error(
-            `${OllamaService.TIMEOUT_ERROR_MESSAGE} ${this.urlHost}. ${OllamaService.TIMEOUT_HELP_MESSAGE}`
-          ),
-          OllamaService.FETCHING_MODELS_CONTEXT
-        )
-      } else {
-        LogHandler.handleOllamaError(error, OllamaService.FETCHING_MODELS_CONTEXT)
-      }
-    } else {
-      LogHandler.handleOllamaError(error, OllamaService.FETCHING_MODELS_CONTEXT)
-    }
-  }
-
   /**
    * Retrieves available models from the service.
    * @description Fetches the list of available models from the configured service endpoint
    * @returns Promise that resolves to an array of model names
    */
-  public async getModels(): Promise<string[]> {
+  public override async getModels(): Promise<string[]> {
     try {
-      const response: { models?: Array<{ name: string }> } = await this.ollama.list()
+      const client: Ollama = this.createClient(await this.getAuthHeaders())
+      const response: { models?: Array<{ name: string }> } = await client.list()
       return response.models?.map((model: { name: string }) => model.name) ?? []
     } catch (error: unknown) {
       this.handleError(error)
@@ -89,71 +56,317 @@ export default class OllamaService {
     }
   }
 
+  /**
+   * Checks whether an API key is accepted by the service.
+   * @description Lists the models with the key sent as bearer token
+   * @param apiKey - The API key to check
+   * @returns Promise that resolves to true if the authenticated request succeeds
+   */
+  public override async validateApiKey(apiKey: string): Promise<boolean> {
+    try {
+      await this.createClient(await this.getAuthHeaders(), undefined, apiKey).list()
+      return true
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'validateApiKey', false, 'error')
+      return false
+    }
+  }
+
+  /**
+   * Checks whether the authentication configured for the host is accepted by the service.
+   * @description Lists the models with the host authentication headers only
+   * @returns Promise that resolves to true if the authenticated request succeeds
+   */
+  public override async checkAuthentication(): Promise<boolean> {
+    try {
+      await this.createClient(await this.getAuthHeaders()).list()
+      return true
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'checkAuthentication', false, 'error')
+      return false
+    }
+  }
+
   /**
    * Generates text completion using the model service.
-   * @description Sends a prompt to the model and returns the generated response
+   * @description Sends a prompt to the model and profile of the completion type and returns the generated response
    * @param prompt - Text input to send to the model
    * @param format - Optional format specification for structured output
-   * @returns Promise that resolves to the generated response or structured data
+   * @param type - The type of completion to generate
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the generated content or null on failure
    */
-  public async generateCompletion(
+  public override async generateCompletion(
     prompt: string,
     format?: object,
-    type: CompletionType = 'completion'
-  ): Promise<ChatResponse | CompletionResult> {
+    type: CompletionType = 'completion',
+    options?: RequestOptions
+  ): Promise<CompletionResult> {
     try {
-      this.ollama = await this.getInstance()
       const chatMessages: Array<{ role: string; content: string }> = []
       const systemContext: string = ContextBuilder.getSystemPrompt(type)
       if (format) {
         chatMessages.push({ role: 'system', content: systemContext })
       }
       chatMessages.push({ role: 'user', content: prompt })
+      const profile: GenerationProfile = ConfigManager.getGenerationProfile(type)
       const chatRequest: ChatRequest = {
-        model: this.selectedModel,
+        model: ConfigManager.getCompletionModel(type),
         messages: chatMessages,
-        options: {
-          temperature: 0.1
-        },
-        keep_alive: '5m',
-        think: false,
+        options: this.getGenerationOptions(profile, options),
+        keep_alive: profile.keep_alive ?? defaultKeepAlive,
+        think: profile.think ?? false,
         stream: false
       }
       if (format) {
         chatRequest.format = format
       }
-      const data: ChatResponse = await this.ollama.chat({ ...chatRequest, stream: false })
-      return format ? data : data.message.content
+      return await this.requestWithAccount(options?.signal, async (client: Ollama) => {
+        if (options?.onChunk) {
+          const stream: AbortableAsyncIterator<ChatResponse> = await client.chat({
+            ...chatRequest,
+            stream: true
+          })
+          return this.readStream(
+            stream,
+            (part: ChatResponse) => part.message.content,
+            options.onChunk,
+            options.signal
+          )
+        }
+        const data: ChatResponse = await client.chat({ ...chatRequest, stream: false })
+        return data.message.content
+      })
     } catch (error: unknown) {
+      if (options?.signal?.aborted === true) {
+        return null
+      }
       this.handleError(error)
       return null
     }
   }
 
   /**
-   * Creates a configured service instance.
-   * @description Applies authentication for remote services or basic configuration for local instances
-   * @returns Promise that resolves to a configured service instance
+   * Generates fill-in-the-middle completion using the model service.
+   * @description Sends the code around the cursor to the generate endpoint with a suffix so the model fills the gap,
+   * uses the model and profile of inline completions
+   * @param prefix - Code before the cursor
+   * @param suffix - Code after the cursor
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the inserted text or null on failure
    */
-  private async getInstance(): Promise<Ollama> {
-    if (Validator.isOllamaUrl(this.urlHost) && Validator.isValidPath(this.databasePath)) {
-      try {
-        const knexManager: KnexManager = new KnexManager(this.databasePath)
-        const accountResult: AccountData | null = await knexManager.getRandomAccount()
-        return new Ollama({
-          host: this.urlHost,
-          headers: {
-            Authorization: `Bearer ${accountResult?.api_key}`,
-            'Content-Type': 'application/json'
-          }
+  public override async generateInfill(
+    prefix: string,
+    suffix: string,
+    options?: RequestOptions
+  ): Promise<CompletionResult> {
+    try {
+      const profile: GenerationProfile = ConfigManager.getGenerationProfile('completion')
+      const infillRequest: InfillRequest = {
+        model: ConfigManager.getCompletionModel('completion'),
+        prompt: prefix,
+        suffix,
+        options: this.getGenerationOptions(profile, options),
+        keep_alive: profile.keep_alive ?? defaultKeepAlive,
+        think: profile.think ?? false,
+        stream: false
+      }
+      return await this.requestWithAccount(options?.signal, async (client: Ollama) => {
+        if (options?.onChunk) {
+          const stream: AbortableAsyncIterator<GenerateResponse> = await client.generate({
+            ...infillRequest,
+            stream: true
+          })
+          return this.readStream(
+            stream,
+            (part: GenerateResponse) => part.response,
+            options.onChunk,
+            options.signal
+          )
+        }
+        const data: GenerateResponse = await client.generate({
+          ...infillRequest,
+          stream: false
         })
+        return data.response
+      })
+    } catch (error: unknown) {
+      if (options?.signal?.aborted === true) {
+        return null
+      }
+      this.handleError(error)
+      return null
+    }
+  }
+
+  /**
+   * Reads a streamed response and accumulates the generated content.
+   * @description Reports the accumulated content after each chunk and aborts the stream when the signal fires
+   * @param stream - The streamed response parts
+   * @param getContent - Extracts the generated text from a response part
+   * @param onChunk - Callback receiving the accumulated content after each chunk
+   * @param signal - Optional signal used to abort the stream
+   * @returns Promise that resolves to the full generated content
+   */
+  private async readStream<T extends object>(
+    stream: AbortableAsyncIterator<T>,
+    getContent: (part: T) => string,
+    onChunk: (content: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const abortStream: () => void = (): void => {
+      stream.abort()
+    }
+    signal?.addEventListener('abort', abortStream, { once: true })
+    let content: string = ''
+    try {
+      for await (const part of stream) {
+        content += getContent(part)
+        onChunk(content)
+      }
+    } finally {
+      signal?.removeEventListener('abort', abortStream)
+    }
+    return content
+  }
+
+  /**
+   * Sends a request with an account of the account database.
+   * @description Remote services are called with a random account that is not rate limited, its bearer token is
+   * resolved from secret storage and accounts without a key are skipped. Every attempt is
+   * counted as usage of the account, an account answered with HTTP 429 is marked as limited and the request
+   * is retried with a different account. Other services and setups without a database or without accounts only use
+   * the host authentication, requests are never sent without an account when accounts exist but none can be used.
+   * @param signal - Optional signal used to abort requests made by the client
+   * @param request - Sends the request with the configured client
+   * @returns Promise that resolves to the result of the request
+   * @throws Error if accounts exist but all of them are disabled, rate limited or without API key
+   */
+  private async requestWithAccount<T>(
+    signal: AbortSignal | undefined,
+    request: (client: Ollama) => Promise<T>
+  ): Promise<T> {
+    const authHeaders: Record<string, string> = await this.getAuthHeaders()
+    const knexManager: KnexManager | null = this.getKnexManager()
+    if (!knexManager) {
+      this.ollama = this.createClient(authHeaders, signal)
+      return request(this.ollama)
+    }
+    const triedIds: number[] = []
+    let rateLimitError: unknown = null
+    for (let attempt: number = 0; attempt < maxAccountAttempts; attempt++) {
+      const account: AccountData | null = await knexManager.getRandomAccount(triedIds)
+      if (!account) {
+        break
+      }
+      triedIds.push(account.id)
+      const apiKey: string | null = await SecretManager.getInstance().getApiKey(account)
+      if (apiKey === null) {
+        continue
+      }
+      this.ollama = this.createClient(authHeaders, signal, apiKey)
+      await knexManager.recordUsage(account.id)
+      try {
+        return await request(this.ollama)
       } catch (error: unknown) {
-        LogHandler.handleConfigError(error, 'getInstance')
+        if (!this.isRateLimitError(error)) {
+          throw error
+        }
+        await knexManager.markLimited(account.id)
+        rateLimitError = error
       }
     }
+    if (rateLimitError !== null) {
+      throw rateLimitError
+    }
+    const accounts: AccountData[] = await knexManager.getAccounts()
+    if (accounts.length > 0) {
+      throw new Error(this.getUnavailableMessage(knexManager, accounts))
+    }
+    this.ollama = this.createClient(authHeaders, signal)
+    return request(this.ollama)
+  }
+
+  /**
+   * Gets the reason no account of the database can be used.
+   * @param knexManager - The account database
+   * @param accounts - All accounts of the database
+   * @returns Message naming the time the first account can be used again
+   */
+  private getUnavailableMessage(knexManager: KnexManager, accounts: AccountData[]): string {
+    const enabledAccounts: AccountData[] = accounts.filter(
+      (account: AccountData) => !account.disabled
+    )
+    if (enabledAccounts.length === 0) {
+      return 'All accounts are disabled, enable an account to send requests'
+    }
+    const availableTime: number = Math.min(
+      ...enabledAccounts.map((account: AccountData) => knexManager.getAvailableTime(account))
+    )
+    if (availableTime <= Date.now()) {
+      return 'No enabled account has an API key in secret storage'
+    }
+    return `All accounts are rate limited until ${new Date(availableTime).toLocaleString()}`
+  }
+
+  /**
+   * Gets the account database of the configured database path.
+   * @description Only remote services use accounts, the database is reopened when the database path changes
+   * @returns The account database or null if accounts are not used
+   */
+  private getKnexManager(): KnexManager | null {
+    if (!Validator.isOllamaUrl(this.urlHost) || !Validator.isValidPath(this.databasePath)) {
+      return null
+    }
+    if (this.knexManager && this.knexPath === this.databasePath) {
+      return this.knexManager
+    }
+    this.knexManager?.destroy().catch((error: unknown) => {
+      LogHandler.handleConfigError(error, 'getKnexManager')
+    })
+    this.knexManager = KnexManager.getInstance(this.databasePath)
+    this.knexPath = this.databasePath
+    return this.knexManager
+  }
+
+  /**
+   * Checks whether a request failed because the account is rate limited.
+   * @param error - The error thrown by the client
+   * @returns True if the service answered with HTTP 429
+   */
+  private isRateLimitError(error: unknown): boolean {
+    return (
+      error instanceof Error &&
+      'status_code' in error &&
+      error.status_code === OllamaService.RATE_LIMIT_STATUS
+    )
+  }
+
+  /**
+   * Creates a configured service instance.
+   * @description Applies the authentication of the host for any host, the API key of an account replaces
+   * its authorization header for remote services
+   * @param authHeaders - Authentication headers of the host
+   * @param signal - Optional signal used to abort requests made by the instance
+   * @param apiKey - Optional API key sent as bearer token
+   * @returns A configured service instance
+   */
+  private createClient(
+    authHeaders: Record<string, string>,
+    signal?: AbortSignal,
+    apiKey?: string
+  ): Ollama {
+    const fetchConfig: { fetch?: typeof globalThis.fetch } = signal
+      ? { fetch: this.getAbortableFetch(signal) }
+      : {}
+    const accountHeaders: Record<string, string> =
+      apiKey !== undefined ? { Authorization: `Bearer ${apiKey}` } : {}
     return new Ollama({
+      ...fetchConfig,
       host: this.urlHost,
       headers: {
+        ...authHeaders,
+        ...accountHeaders,
         'Content-Type': 'application/json'
       }
     })
@@ -0,0 +1,315 @@
+import {
+  CompletionResult,
+  CompletionType,
+  GenerationOptions,
+  RequestOptions
+} from '@interfaces/index'
+import { ConfigManager } from '@config/index'
+import { ContextBuilder } from '@integrator/index'
+import { BaseService } from '@services/index'
+import { LogHandler } from '@utils/index'
+
+/**
+ * Completion response structure of OpenAI-compatible endpoints.
+ * @description Covers chat and text completion responses as well as streamed chunks
+ */
+type OpenAICompletionResponse = {
+  choices?: Array<{
+    message?: { content?: string | null }
+    delta?: { content?: string | null }
+    text?: string | null
+  }>
+}
+
+/**
+ * Model list response structure of OpenAI-compatible endpoints.
+ * @description Contains the identifiers of the served models
+ */
+type OpenAIModelResponse = {
+  data?: Array<{ id: string }>
+}
+
+/**
+ * Service for OpenAI-compatible model servers.
+ * @description Handles interactions with llama.cpp, vLLM and other servers exposing /v1/chat/completions
+ */
+export default class OpenAIService extends BaseService {
+  /** Prefix of server-sent event data lines */
+  private static readonly EVENT_DATA_PREFIX: string = 'data:'
+  /** Marker sent by the server when the stream is complete */
+  private static readonly EVENT_DONE_MARKER: string = '[DONE]'
+
+  /**
+   * Retrieves available models from the service.
+   * @description Fetches the list of served models from the /v1/models endpoint
+   * @returns Promise that resolves to an array of model names
+   */
+  public override async getModels(): Promise<string[]> {
+    try {
+      const response: Response = await this.request('models', { method: 'GET' })
+      const data: OpenAIModelResponse = (await response.json()) as OpenAIModelResponse
+      return data.data?.map((model: { id: string }) => model.id) ?? []
+    } catch (error: unknown) {
+      this.handleError(error)
+      return []
+    }
+  }
+
+  /**
+   * Checks whether an API key is accepted by the service.
+   * @description Lists the served models with the key sent as bearer token
+   * @param apiKey - The API key to check
+   * @returns Promise that resolves to true if the authenticated request succeeds
+   */
+  public override async validateApiKey(apiKey: string): Promise<boolean> {
+    try {
+      await this.request('models', { method: 'GET' }, undefined, {
+        Authorization: `Bearer ${apiKey}`
+      })
+      return true
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'validateApiKey', false, 'error')
+      return false
+    }
+  }
+
+  /**
+   * Checks whether the authentication configured for the host is accepted by the service.
+   * @description Lists the served models with the host authentication headers only
+   * @returns Promise that resolves to true if the authenticated request succeeds
+   */
+  public override async checkAuthentication(): Promise<boolean> {
+    try {
+      await this.request('models', { method: 'GET' })
+      return true
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'checkAuthentication', false, 'error')
+      return false
+    }
+  }
+
+  /**
+   * Generates text completion using the model service.
+   * @description Sends a chat completion request and returns the generated content
+   * @param prompt - Text input to send to the model
+   * @param format - Optional JSON schema for structured output
+   * @param type - The type of completion to generate
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the generated content or null on failure
+   */
+  public override async generateCompletion(
+    prompt: string,
+    format?: object,
+    type: CompletionType = 'completion',
+    options?: RequestOptions
+  ): Promise<CompletionResult> {
+    try {
+      const chatMessages: Array<{ role: string; content: string }> = []
+      if (format) {
+        chatMessages.push({ role: 'system', content: ContextBuilder.getSystemPrompt(type) })
+      }
+      chatMessages.push({ role: 'user', content: prompt })
+      const chatRequest: Record<string, unknown> = {
+        ...this.getSamplingParameters(type, options),
+        model: ConfigManager.getCompletionModel(type),
+        messages: chatMessages,
+        stream: options?.onChunk !== undefined
+      }
+      if (format) {
+        chatRequest['response_format'] = {
+          type: 'json_schema',
+          json_schema: { name: 'generation', schema: format }
+        }
+      }
+      const response: Response = await this.request(
+        'chat/completions',
+        { method: 'POST', body: JSON.stringify(chatRequest) },
+        options?.signal
+      )
+      if (options?.onChunk) {
+        return await this.readStream(response, options.onChunk)
+      }
+      const data: OpenAICompletionResponse = (await response.json()) as OpenAICompletionResponse
+      return data.choices?.[0]?.message?.content ?? null
+    } catch (error: unknown) {
+      if (options?.signal?.aborted === true) {
+        return null
+      }
+      this.handleError(error)
+      return null
+    }
+  }
+
+  /**
+   * Generates fill-in-the-middle completion using the model service.
+   * @description Sends the code around the cursor to the /v1/completions endpoint with a suffix
+   * @param prefix - Code before the cursor
+   * @param suffix - Code after the cursor
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the inserted text or null on failure
+   */
+  public override async generateInfill(
+    prefix: string,
+    suffix: string,
+    options?: RequestOptions
+  ): Promise<CompletionResult> {
+    try {
+      const infillRequest: Record<string, unknown> = {
+        ...this.getSamplingParameters('completion', options),
+        model: ConfigManager.getCompletionModel('completion'),
+        prompt: prefix,
+        suffix,
+        stream: options?.onChunk !== undefined
+      }
+      const response: Response = await this.request(
+        'completions',
+        { method: 'POST', body: JSON.stringify(infillRequest) },
+        options?.signal
+      )
+      if (options?.onChunk) {
+        return await this.readStream(response, options.onChunk)
+      }
+      const data: OpenAICompletionResponse = (await response.json()) as OpenAICompletionResponse
+      return data.choices?.[0]?.text ?? null
+    } catch (error: unknown) {
+      if (options?.signal?.aborted === true) {
+        return null
+      }
+      this.handleError(error)
+      return null
+    }
+  }
+
+  /**
+   * Gets the sampling parameters of a completion type in OpenAI request format.
+   * @description Maps the generation profile to temperature, top_p, max_tokens and stop, the context size,
+   * keep alive and thinking level of the profile are configured on the server instead
+   * @param type - The completion type
+   * @param options - Optional request options whose temperature overrides the profile temperature
+   * @returns The request parameters set by the profile
+   */
+  private getSamplingParameters(
+    type: CompletionType,
+    options?: RequestOptions
+  ): Record<string, unknown> {
+    const generationOptions: GenerationOptions = this.getGenerationOptions(
+      ConfigManager.getGenerationProfile(type),
+      options
+    )
+    const parameters: Record<string, unknown> = { temperature: generationOptions.temperature }
+    if (generationOptions.top_p !== undefined) {
+      parameters['top_p'] = generationOptions.top_p
+    }
+    if (generationOptions.num_predict !== undefined) {
+      parameters['max_tokens'] = generationOptions.num_predict
+    }
+    if (generationOptions.stop !== undefined) {
+      parameters['stop'] = generationOptions.stop
+    }
+    return parameters
+  }
+
+  /**
+   * Reads a server-sent event stream and accumulates the generated content.
+   * @description Reports the accumulated content after each chunk until the done marker is received
+   * @param response - The streaming HTTP response
+   * @param onChunk - Callback receiving the accumulated content after each chunk
+   * @returns Promise that resolves to the full generated content
+   */
+  private async readStream(
+    response: Response,
+    onChunk: (content: string) => void
+  ): Promise<CompletionResult> {
+    if (!response.body) {
+      return null
+    }
+    const decoder: TextDecoder = new TextDecoder()
+    let buffer: string = ''
+    let content: string = ''
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk, { stream: true })
+      const lines: string[] = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        const delta: string | null = this.parseEventLine(line)
+        if (delta !== null && delta !== '') {
+          content += delta
+          onChunk(content)
+        }
+      }
+    }
+    return content
+  }
+
+  /**
+   * Parses a single server-sent event line.
+   * @description Extracts the content delta from a data line of the stream, lines that are not valid JSON
+   * such as keep-alive or proxy comments are skipped
+   * @param line - The raw event line
+   * @returns The content delta or null if the line carries no content
+   */
+  private parseEventLine(line: string): string | null {
+    const trimmed: string = line.trim()
+    if (!trimmed.startsWith(OpenAIService.EVENT_DATA_PREFIX)) {
+      return null
+    }
+    const payload: string = trimmed.slice(OpenAIService.EVENT_DATA_PREFIX.length).trim()
+    if (payload === OpenAIService.EVENT_DONE_MARKER) {
+      return null
+    }
+    try {
+      const data: OpenAICompletionResponse = JSON.parse(payload) as OpenAICompletionResponse
+      return data.choices?.[0]?.delta?.content ?? data.choices?.[0]?.text ?? null
+    } catch (error: unknown) {
+      LogHandler.handle(error, 'parseEventLine', false, 'warning')
+      return null
+    }
+  }
+
+  /**
+   * Sends an HTTP request to the OpenAI-compatible API.
+   * @description Resolves the endpoint below the /v1 base path with the authentication of the host and throws on
+   * non-success status codes
+   * @param endpoint - The endpoint path relative to the /v1 base path
+   * @param init - Request method and body
+   * @param signal - Optional signal used to abort the request
+   * @param headers - Optional additional request headers, replacing authentication headers of the same name
+   * @returns Promise that resolves to the HTTP response
+   */
+  private async request(
+    endpoint: string,
+    init: { method: string; body?: string },
+    signal?: AbortSignal,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const fetchRequest: typeof globalThis.fetch = signal
+      ? this.getAbortableFetch(signal)
+      : globalThis.fetch
+    const authHeaders: Record<string, string> = await this.getAuthHeaders()
+    const response: Response = await fetchRequest(`${this.getBaseUrl()}/${endpoint}`, {
+      ...init,
+      headers: {
+        ...authHeaders,
+        ...headers,
+        'Content-Type': 'application/json'
+      }
+    })
+    if (!response.ok) {
+      throw new Error(`Request to ${endpoint} failed with status ${response.status}`)
+    }
+    return response
+  }
+
+  /**
+   * Gets the base URL of the OpenAI-compatible API.
+   * @description Appends the /v1 path to the configured host unless it is already present
+   * @returns The API base URL without trailing slash
+   */
+  private getBaseUrl(): string {
+    let host: string = this.urlHost
+    while (host.endsWith('/')) {
+      host = host.slice(0, -1)
+    }
+    return host.endsWith('/v1') ? host : `${host}/v1`
+  }
+}
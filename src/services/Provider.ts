@@ -0,0 +1,95 @@
+import {
+  CompletionResult,
+  CompletionType,
+  ModelService,
+  ProviderType,
+  RequestOptions
+} from '@interfaces/index'
+import { ConfigManager } from '@config/index'
+import { OllamaService, OpenAIService } from '@services/index'
+
+/**
+ * Service routing requests to the configured provider backend.
+ * @description Resolves the backend from the Provider setting on every call so changes apply without reload
+ */
+export default class ProviderService implements ModelService {
+  /** Backend instances created on first use, keyed by provider type */
+  private readonly services: Map<ProviderType, ModelService> = new Map()
+
+  /**
+   * Retrieves available models from the configured backend.
+   * @description Delegates model listing to the active provider
+   * @returns Promise that resolves to an array of model names
+   */
+  public async getModels(): Promise<string[]> {
+    return this.getService().getModels()
+  }
+
+  /**
+   * Generates text completion using the configured backend.
+   * @description Delegates generation to the active provider
+   * @param prompt - Text input to send to the model
+   * @param format - Optional JSON schema for structured output
+   * @param type - The type of completion to generate
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the generated content or null on failure
+   */
+  public async generateCompletion(
+    prompt: string,
+    format?: object,
+    type: CompletionType = 'completion',
+    options?: RequestOptions
+  ): Promise<CompletionResult> {
+    return this.getService().generateCompletion(prompt, format, type, options)
+  }
+
+  /**
+   * Generates fill-in-the-middle completion using the configured backend.
+   * @description Delegates infill generation to the active provider
+   * @param prefix - Code before the cursor
+   * @param suffix - Code after the cursor
+   * @param options - Optional cancellation signal and streaming callback
+   * @returns Promise that resolves to the inserted text or null on failure
+   */
+  public async generateInfill(
+    prefix: string,
+    suffix: string,
+    options?: RequestOptions
+  ): Promise<CompletionResult> {
+    return this.getService().generateInfill(prefix, suffix, options)
+  }
+
+  /**
+   * Checks an API key against the configured backend.
+   * @description Delegates the authenticated test call to the active provider
+   * @param apiKey - The API key to check
+   * @returns Promise that resolves to true if the key is accepted
+   */
+  public async validateApiKey(apiKey: string): Promise<boolean> {
+    return this.getService().validateApiKey(apiKey)
+  }
+
+  /**
+   * Checks the host authentication against the configured backend.
+   * @description Delegates the authenticated test call to the active provider
+   * @returns Promise that resolves to true if the host authentication is accepted
+   */
+  public async checkAuthentication(): Promise<boolean> {
+    return this.getService().checkAuthentication()
+  }
+
+  /**
+   * Gets the backend instance for the configured provider.
+   * @description Creates the backend on first use and reuses it afterwards
+   * @returns The model service of the active provider
+   */
+  private getService(): ModelService {
+    const provider: ProviderType = ConfigManager.getProvider()
+    let service: ModelService | undefined = this.services.get(provider)
+    if (!service) {
+      service = provider === 'openai' ? new OpenAIService() : new OllamaService()
+      this.services.set(provider, service)
+    }
+    return service
+  }
+}
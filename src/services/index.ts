@@ -2,4 +2,7 @@
  * Services module exports.
  * @description Provides access to external service integrations
  */
+export { default as BaseService } from '@services/Base'
 export { default as OllamaService } from '@services/Ollama'
+export { default as OpenAIService } from '@services/OpenAI'
+export { default as ProviderService } from '@services/Provider'
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode'
+import * as path from 'path'
+import * as os from 'os'
+
+/**
+ * Path resolution utility class.
+ * @description Expands the home directory and editor variables of configured file paths
+ */
+export default class PathResolver {
+  /** Pattern of the `${name}` and `${name:argument}` variables of a path */
+  private static readonly VARIABLE_PATTERN: RegExp = /\$\{([^}:]+)(?::([^}]*))?\}/g
+
+  /**
+   * Resolves a configured file path.
+   * @description Expands a leading `~`, `${userHome}`, `${workspaceFolder}`, `${workspaceFolder:name}`,
+   * `${workspaceFolderBasename}` and `${env:NAME}`. Relative paths are resolved against the first workspace folder.
+   * Variables that cannot be resolved are kept so validation can report them.
+   * @param rawPath - The path as configured
+   * @returns The resolved path
+   */
+  public static resolve(rawPath: string): string {
+    const trimmedPath: string = rawPath.trim()
+    if (trimmedPath === '') {
+      return ''
+    }
+    const homePath: string =
+      trimmedPath === '~' || /^~[/\\]/.test(trimmedPath)
+        ? path.join(os.homedir(), trimmedPath.slice(1))
+        : trimmedPath
+    const expandedPath: string = homePath.replace(
+      this.VARIABLE_PATTERN,
+      (variable: string, name: string, argument: string | undefined) => {
+        return this.getVariable(name, argument) ?? variable
+      }
+    )
+    const [workspaceFolder]: readonly vscode.WorkspaceFolder[] =
+      vscode.workspace.workspaceFolders ?? []
+    if (path.isAbsolute(expandedPath) || !workspaceFolder) {
+      return path.normalize(expandedPath)
+    }
+    return path.resolve(workspaceFolder.uri.fsPath, expandedPath)
+  }
+
+  /**
+   * Gets the first variable of a path that could not be resolved.
+   * @param resolvedPath - A path returned by resolve
+   * @returns The unresolved variable or null if all variables are resolved
+   */
+  public static getUnresolvedVariable(resolvedPath: string): string | null {
+    const match: RegExpExecArray | null = /\$\{[^}]*\}/.exec(resolvedPath)
+    return match ? match[0] : null
+  }
+
+  /**
+   * Gets the value of a path variable.
+   * @param name - Name of the variable
+   * @param argument - Optional argument following the name, the folder name or the environment variable
+   * @returns The value or undefined if the variable is unknown or has no value
+   */
+  private static getVariable(name: string, argument: string | undefined): string | undefined {
+    const workspaceFolders: readonly vscode.WorkspaceFolder[] =
+      vscode.workspace.workspaceFolders ?? []
+    switch (name) {
+      case 'userHome':
+        return os.homedir()
+      case 'env':
+        return argument === undefined ? undefined : process.env[argument]
+      case 'workspaceFolder': {
+        const workspaceFolder: vscode.WorkspaceFolder | undefined =
+          argument === undefined
+            ? workspaceFolders[0]
+            : workspaceFolders.find((folder: vscode.WorkspaceFolder) => folder.name === argument)
+        return workspaceFolder?.uri.fsPath
+      }
+      case 'workspaceFolderBasename':
+        return workspaceFolders[0]?.name
+      default:
+        return undefined
+    }
+  }
+}
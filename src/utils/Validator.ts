@@ -1,5 +1,6 @@
 import * as path from 'path'
 import * as fs from 'fs'
+import { PathResolver } from '@utils/index'
 
 /**
  * Validation utility class.
@@ -33,20 +34,67 @@ export default class Validator {
 
   /**
    * Checks if a string is a valid database path.
-   * @param dbPath - Database path string to validate
+   * @param dbPath - Resolved database path to validate
    * @returns True if the path is valid, false otherwise
-   * @description Validates file path format and checks if the directory exists
+   * @description The database file itself may be missing, SQLite creates it on first use
    */
   public static isValidPath(dbPath: string): boolean {
-    if (!dbPath || typeof dbPath !== 'string') {
-      return false
+    return this.getPathIssue(dbPath) === null
+  }
+
+  /**
+   * Gets the reason a database path cannot be used.
+   * @param dbPath - Resolved database path to validate
+   * @returns Message describing the first problem or null if the path is valid
+   * @description Checks for unresolved variables, relative paths, a missing or read-only directory and
+   * an existing database file that is a directory or read-only
+   */
+  public static getPathIssue(dbPath: string): string | null {
+    if (!dbPath || typeof dbPath !== 'string' || dbPath.trim() === '') {
+      return 'Database path is empty'
     }
-    if (dbPath.trim() === '') {
-      return false
+    const variable: string | null = PathResolver.getUnresolvedVariable(dbPath)
+    if (variable !== null) {
+      return `Cannot resolve ${variable} in database path ${dbPath}, open a workspace folder or use an absolute path`
+    }
+    if (!path.isAbsolute(dbPath)) {
+      return `Database path ${dbPath} is relative and no workspace folder is open`
     }
     try {
       const dir: string = path.dirname(dbPath)
-      return fs.existsSync(dir)
+      if (!fs.existsSync(dir)) {
+        return `Database directory ${dir} does not exist`
+      }
+      if (!fs.statSync(dir).isDirectory()) {
+        return `Database directory ${dir} is not a directory`
+      }
+      if (!this.isWritable(dir)) {
+        return `Database directory ${dir} is not writable`
+      }
+      if (!fs.existsSync(dbPath)) {
+        return null
+      }
+      if (fs.statSync(dbPath).isDirectory()) {
+        return `Database path ${dbPath} is a directory, not a file`
+      }
+      if (!this.isWritable(dbPath)) {
+        return `Database file ${dbPath} is not writable`
+      }
+      return null
+    } catch (error: unknown) {
+      return `Database path ${dbPath} cannot be checked: ${error instanceof Error ? error.message : String(error)}`
+    }
+  }
+
+  /**
+   * Checks if the current user may write to a file or directory.
+   * @param filePath - Path of an existing file or directory
+   * @returns True if the path is writable, false otherwise
+   */
+  private static isWritable(filePath: string): boolean {
+    try {
+      fs.accessSync(filePath, fs.constants.W_OK)
+      return true
     } catch {
       return false
     }
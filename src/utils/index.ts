@@ -4,3 +4,4 @@
  */
 export { default as LogHandler } from '@utils/LogHandler'
 export { default as Validator } from '@utils/Validator'
+export { default as PathResolver } from '@utils/PathResolver'